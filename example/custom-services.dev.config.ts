@@ -12,18 +12,10 @@ export default defineDevConfig({
 				image: "postgres:16-alpine",
 			},
 		}),
-		rabbitmq: service.custom({
-			port: 5672,
+		rabbitmq: service.rabbitmq({
 			expose: true,
-			healthCheck: false,
-			docker: {
-				image: "rabbitmq:3-management-alpine",
-				ports: ["$" + "{RABBITMQ_PORT:-5672}:5672", "15672:15672"],
-				environment: {
-					RABBITMQ_DEFAULT_USER: "guest",
-					RABBITMQ_DEFAULT_PASS: "guest",
-				},
-			},
+			queues: ["emails"],
+			exchanges: ["events"],
 		}),
 		nats: service.custom({
 			port: 4222,
@@ -36,6 +28,7 @@ export default defineDevConfig({
 
 	envVars: (_ports, urls) => ({
 		DATABASE_URL: urls.postgres,
+		AMQP_URL: urls.rabbitmq,
 	}),
 
 	docker: { volumes: { shared_cache: {} } },
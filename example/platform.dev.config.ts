@@ -1,6 +1,6 @@
 // In this repository we import local source for accurate in-progress types.
-// In external projects, use: import { defineDevConfig, service } from "buncargo";
-import { defineDevConfig, service } from "../src";
+// In external projects, use: import { defineDevConfig, secret, service } from "buncargo";
+import { defineDevConfig, secret, service } from "../src";
 
 export default defineDevConfig({
 	projectPrefix: "gey",
@@ -27,14 +27,18 @@ export default defineDevConfig({
 		},
 	},
 
-	envVars: (ports, urls, { localIp }) => ({
+	secrets: {
+		SECRETS_ENV: [secret.env(), secret.file(), secret.value("dev")],
+	},
+
+	envVars: (ports, urls, { localIp, secrets }) => ({
 		DATABASE_URL: urls.postgres,
 		BASE_URL: urls.api,
 		VITE_API_URL: urls.api,
 		VITE_PORT: ports.platform,
 		CLICKHOUSE_NATIVE_PORT: ports.clickhouseSecondary,
 		EXPO_PUBLIC_API_URL: `http://${localIp}:${ports.api}`,
-		SECRETS_ENV: "dev",
+		SECRETS_ENV: secrets.SECRETS_ENV,
 	}),
 
 	migrations: [
@@ -7,18 +7,34 @@
  *   bunx buncargo dev           # Start containers + dev servers
  *   bunx buncargo dev --down    # Stop containers
  *   bunx buncargo dev --reset   # Stop + remove volumes
+ *   bunx buncargo env --write   # Write .env.buncargo files
+ *   bunx buncargo env --check   # Validate env vars against envSchema
+ *   bunx buncargo status        # Show service/app health
+ *   bunx buncargo logs -f       # Stream container logs
+ *   bunx buncargo shell postgres # Open psql in the postgres container
+ *   bunx buncargo snapshot save baseline  # Snapshot database data
+ *   bunx buncargo ls            # List buncargo projects on this machine
+ *   bunx buncargo secrets set STRIPE_KEY  # Store a secret (value from stdin)
  *   bunx buncargo typecheck     # Run TypeScript typecheck
  *   bunx buncargo prisma ...    # Run prisma commands
  *   bunx buncargo help          # Show help
  */
 
+import { redactSecrets } from "../secrets";
 import { showHelp } from "./commands/help";
+import { handleLs } from "./commands/ls";
 import {
 	handleDev,
 	handleEnv,
+	handleExec,
+	handleLogs,
 	handlePrisma,
+	handleShell,
+	handleSnapshot,
+	handleStatus,
 	handleTypecheck,
 } from "./commands/runtime";
+import { handleSecrets } from "./commands/secrets";
 import { showVersion } from "./commands/version";
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -59,7 +75,35 @@ async function main(): Promise<void> {
 			break;
 
 		case "env":
-			await handleEnv();
+			await handleEnv(commandArgs);
+			break;
+
+		case "status":
+			await handleStatus(commandArgs);
+			break;
+
+		case "logs":
+			await handleLogs(commandArgs);
+			break;
+
+		case "shell":
+			await handleShell(commandArgs);
+			break;
+
+		case "exec":
+			await handleExec(commandArgs);
+			break;
+
+		case "snapshot":
+			await handleSnapshot(commandArgs);
+			break;
+
+		case "ls":
+			await handleLs(commandArgs);
+			break;
+
+		case "secrets":
+			await handleSecrets(commandArgs);
 			break;
 
 		default:
@@ -72,6 +116,6 @@ async function main(): Promise<void> {
 
 main().catch((error) => {
 	const message = error instanceof Error ? error.message : String(error);
-	console.error(`❌ ${message}`);
+	console.error(`❌ ${redactSecrets(message)}`);
 	process.exit(1);
 });
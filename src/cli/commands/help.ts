@@ -9,7 +9,17 @@ COMMANDS:
   dev                 Start the development environment
   typecheck           Run TypeScript typecheck across workspaces
   prisma <args>       Run Prisma CLI with correct DATABASE_URL
-  env                 Print environment info as JSON
+  env [--write [path]] Print environment info as JSON, or write .env files
+                      (--format=dotenv|shell|json|github-actions, --keys A,B_*,
+                      --include-secrets to write secrets too,
+                      --check to validate them against envSchema)
+  status [--json]     Show ports, container state and health per service/app
+  logs [service...]   Show container logs (--follow, --since 10m, --grep pattern)
+  shell <service>     Open the service client (psql, redis-cli, ...) in its container
+  exec <svc> -- <cmd> Run a command inside a service container
+  snapshot <action>   save|restore|delete <name>, or list (postgres, clickhouse)
+  ls [--json]         List buncargo projects on this machine with ports and state
+  secrets <action>    set <name> [value]|remove <name>, or list (encrypted secrets file)
   help                Show this help message
   version             Show version
 
@@ -17,11 +27,27 @@ EXAMPLES:
   bunx buncargo dev              # Start everything
   bunx buncargo dev --expose     # Public quick tunnel for expose:true targets
   bunx buncargo dev --expose=api # Public quick tunnel for selected target
+  bunx buncargo dev --ui         # Interactive dashboard per app/service
   bunx buncargo dev --help       # Show dev command options
   bunx buncargo dev --down       # Stop containers
+  bunx buncargo dev --force-migrate  # Rerun migrations with unchanged inputs
   bunx buncargo typecheck        # Run typecheck
   bunx buncargo prisma studio    # Open Prisma Studio
   bunx buncargo env              # Get ports/urls as JSON
+  bunx buncargo env --write      # Write .env.buncargo files for IDEs and tools
+  eval "$(bunx buncargo env --format=shell)"  # Load the env vars into this shell
+  bunx buncargo env --format=github-actions >> "$GITHUB_ENV"
+  bunx buncargo env --check      # Fail CI when env vars do not match envSchema
+  bunx buncargo status           # Is postgres up? Is the api listening?
+  bunx buncargo status --json    # Machine-readable status for scripts
+  bunx buncargo logs postgres -f # Follow postgres container logs
+  bunx buncargo logs --since 10m --grep ERROR  # Recent errors
+  bunx buncargo shell postgres   # psql with the configured user/database
+  bunx buncargo exec redis -- redis-cli info
+  bunx buncargo snapshot save seeded    # Save database data
+  bunx buncargo snapshot restore seeded # Back to the saved state
+  bunx buncargo ls               # Which worktrees are running, on which ports
+  op read op://dev/stripe | bunx buncargo secrets set STRIPE_KEY
 
 CONFIG:
   Create a dev.config.ts with a default export:
@@ -0,0 +1,62 @@
+import pc from "picocolors";
+import { pruneRegistry, type RegistryEntry } from "../../core/registry";
+import {
+	type ContainerStatus,
+	getContainerStatuses,
+} from "../../docker/runtime";
+import { hasFlag } from "../run-cli";
+
+/**
+ * Summarize the containers of a project, e.g. "running 2/3" or "stopped".
+ */
+export function describeContainerState(
+	statuses: Record<string, ContainerStatus>,
+): string {
+	const all = Object.values(statuses);
+	const running = all.filter((status) => status.state === "running").length;
+	if (all.length === 0) return "no containers";
+	if (running === 0) return "stopped";
+	return `running ${running}/${all.length}`;
+}
+
+/**
+ * `buncargo ls [--json]`: every registered project on this machine.
+ * Works outside a project, since it only reads the registry and Docker.
+ */
+export async function handleLs(args: string[]): Promise<void> {
+	const entries: RegistryEntry[] = await pruneRegistry();
+	const projects = await Promise.all(
+		entries.map(async (entry) => ({
+			...entry,
+			state: describeContainerState(
+				await getContainerStatuses(entry.projectName),
+			),
+		})),
+	);
+
+	if (hasFlag(args, "--json")) {
+		console.log(JSON.stringify(projects, null, 2));
+		return;
+	}
+
+	if (projects.length === 0) {
+		console.log("No buncargo projects registered yet");
+		return;
+	}
+
+	const width = Math.max(...projects.map((p) => p.projectName.length));
+	for (const project of projects.sort((a, b) =>
+		a.projectName.localeCompare(b.projectName),
+	)) {
+		const state = project.state.startsWith("running")
+			? pc.green(project.state)
+			: pc.dim(project.state);
+		console.log(
+			`${pc.bold(project.projectName.padEnd(width))}  +${String(project.portOffset).padEnd(2)}  ${state}  ${pc.dim(project.root)}`,
+		);
+		const ports = Object.entries(project.ports)
+			.map(([name, port]) => `${name} ${port}`)
+			.join(", ");
+		console.log(`${" ".repeat(width)}  ${pc.dim(ports)}`);
+	}
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "bun:test";
+import { parseEnvArgs, parseExecArgs, parseLogsArgs } from "./runtime";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseLogsArgs Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("parseLogsArgs", () => {
+	it("defaults to all services without following", () => {
+		expect(parseLogsArgs([])).toEqual({
+			services: [],
+			follow: false,
+			since: undefined,
+			grep: undefined,
+		});
+	});
+
+	it("collects service names around flags", () => {
+		const args = ["postgres", "--since", "10m", "redis", "-f"];
+
+		expect(parseLogsArgs(args)).toEqual({
+			services: ["postgres", "redis"],
+			follow: true,
+			since: "10m",
+			grep: undefined,
+		});
+	});
+
+	it("does not treat flag values as service names", () => {
+		const args = ["--grep", "ERROR", "--follow", "clickhouse"];
+
+		expect(parseLogsArgs(args)).toMatchObject({
+			services: ["clickhouse"],
+			follow: true,
+			grep: "ERROR",
+		});
+	});
+
+	it("supports --flag=value format", () => {
+		expect(parseLogsArgs(["--since=1h", "--grep=timeout"])).toMatchObject({
+			services: [],
+			since: "1h",
+			grep: "timeout",
+		});
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseExecArgs Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("parseExecArgs", () => {
+	it("splits the service from the command after --", () => {
+		expect(parseExecArgs(["postgres", "--", "psql", "-c", "select 1"])).toEqual(
+			{
+				service: "postgres",
+				command: ["psql", "-c", "select 1"],
+			},
+		);
+	});
+
+	it("keeps flags of the command after --", () => {
+		expect(
+			parseExecArgs(["redis", "--", "redis-cli", "--scan"]).command,
+		).toEqual(["redis-cli", "--scan"]);
+	});
+
+	it("accepts a command without separator", () => {
+		expect(parseExecArgs(["redis", "redis-cli", "ping"])).toEqual({
+			service: "redis",
+			command: ["redis-cli", "ping"],
+		});
+	});
+
+	it("keeps a later -- as part of the command", () => {
+		expect(parseExecArgs(["postgres", "psql", "--", "-c", "x"])).toEqual({
+			service: "postgres",
+			command: ["psql", "--", "-c", "x"],
+		});
+		expect(
+			parseExecArgs(["postgres", "--", "psql", "--", "-c", "x"]).command,
+		).toEqual(["psql", "--", "-c", "x"]);
+	});
+
+	it("returns no service when only a command is given", () => {
+		expect(parseExecArgs(["--", "ls"]).service).toBeUndefined();
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseEnvArgs Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("parseEnvArgs", () => {
+	it("parses format and comma-separated keys", () => {
+		expect(
+			parseEnvArgs(["--format=shell", "--keys", "DATABASE_URL, VITE_*"]),
+		).toEqual({
+			check: false,
+			format: "shell",
+			includeSecrets: false,
+			keys: ["DATABASE_URL", "VITE_*"],
+			write: false,
+			writePath: undefined,
+		});
+	});
+
+	it("parses --write with and without a path", () => {
+		expect(parseEnvArgs(["--write"])).toMatchObject({
+			write: true,
+			writePath: undefined,
+		});
+		expect(parseEnvArgs(["--write", ".env.test"])).toMatchObject({
+			write: true,
+			writePath: ".env.test",
+			includeSecrets: false,
+		});
+		expect(
+			parseEnvArgs(["--write", ".env.test", "--include-secrets"]),
+		).toMatchObject({ writePath: ".env.test", includeSecrets: true });
+	});
+
+	it("parses --check", () => {
+		expect(parseEnvArgs(["--check"])).toMatchObject({
+			check: true,
+			write: false,
+		});
+	});
+
+	it("rejects unknown formats", () => {
+		expect(() => parseEnvArgs(["--format=yaml"])).toThrow(
+			'Unknown --format "yaml". Use one of: dotenv, shell, json, github-actions',
+		);
+	});
+});
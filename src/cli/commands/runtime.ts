@@ -1,5 +1,18 @@
+import { relative } from "node:path";
+import pc from "picocolors";
+import { PREFIX_COLORS } from "../../core/process";
+import {
+	DEFAULT_ENV_FILE,
+	ENV_FORMATS,
+	type EnvFormat,
+	filterEnvVars,
+	formatEnvVars,
+	formatGithubActionsMasks,
+} from "../../environment/env-files";
+import { formatEnvIssues } from "../../environment/env-schema";
+import { logEnvironmentStatus } from "../../environment/logging";
 import { loadDevEnv } from "../../loader";
-import { runCli } from "../run-cli";
+import { getFlagValue, hasFlag, runCli } from "../run-cli";
 
 export async function loadEnv() {
 	try {
@@ -42,8 +55,107 @@ export async function handlePrisma(args: string[]): Promise<void> {
 	process.exit(exitCode);
 }
 
-export async function handleEnv(): Promise<void> {
+/**
+ * `buncargo env --write [path]`: the app env files from the config, else (or
+ * with a path) a single file with every var (or only `--keys`), secrets only
+ * with `--include-secrets`.
+ */
+function writeEnvFiles(
+	env: Awaited<ReturnType<typeof loadEnv>>,
+	path: string | undefined,
+	keys: string[] | undefined,
+	includeSecrets: boolean,
+): void {
+	let files = path
+		? [env.writeEnvFile(path, keys, { includeSecrets })]
+		: env.writeEnvFiles();
+	if (files.length === 0) {
+		files = [env.writeEnvFile(DEFAULT_ENV_FILE, keys, { includeSecrets })];
+	}
+	for (const file of files) {
+		console.log(`✓ Wrote ${relative(env.root, file)}`);
+	}
+}
+
+export interface EnvArgs {
+	/** `--check`: validate the env vars against envSchema */
+	check: boolean;
+	format?: EnvFormat;
+	/** `--include-secrets`: also write vars holding secrets with `--write <path>` */
+	includeSecrets: boolean;
+	/** Names or `PREFIX_*` patterns from `--keys A,B` */
+	keys?: string[];
+	write: boolean;
+	writePath?: string;
+}
+
+/**
+ * Parse `buncargo env [--format=dotenv|shell|json|github-actions] [--keys A,B] [--write [path]] [--include-secrets] [--check]`.
+ */
+export function parseEnvArgs(args: string[]): EnvArgs {
+	const format = getFlagValue(args, "--format");
+	if (format !== undefined && !ENV_FORMATS.includes(format as EnvFormat)) {
+		throw new Error(
+			`Unknown --format "${format}". Use one of: ${ENV_FORMATS.join(", ")}`,
+		);
+	}
+	const keys = getFlagValue(args, "--keys")
+		?.split(",")
+		.map((key) => key.trim())
+		.filter(Boolean);
+	const writePath = getFlagValue(args, "--write");
+	return {
+		check: hasFlag(args, "--check"),
+		format: format as EnvFormat | undefined,
+		includeSecrets: hasFlag(args, "--include-secrets"),
+		keys,
+		write: hasFlag(args, "--write") || writePath !== undefined,
+		writePath,
+	};
+}
+
+export async function handleEnv(args: string[]): Promise<void> {
+	let parsed: EnvArgs;
+	try {
+		parsed = parseEnvArgs(args);
+	} catch (error) {
+		console.error(`❌ ${error instanceof Error ? error.message : error}`);
+		process.exit(1);
+	}
+	const { check, format, includeSecrets, keys, write, writePath } = parsed;
 	const env = await loadEnv();
+	const secrets =
+		check || write || format || keys ? await env.resolveSecrets() : {};
+
+	if (check) {
+		const issues = await env.checkEnv();
+		if (issues.length > 0) {
+			console.error("❌ Env vars do not match envSchema:");
+			console.error(formatEnvIssues(issues));
+			process.exit(1);
+		}
+		console.log("✓ Env vars match envSchema");
+		return;
+	}
+
+	if (write) {
+		writeEnvFiles(env, writePath, keys, includeSecrets);
+		return;
+	}
+
+	if (format || keys) {
+		const vars = filterEnvVars(env.buildEnvVars(), keys);
+		if (format === "github-actions") {
+			// Workflow commands on stderr reach the runner even when stdout is
+			// appended to $GITHUB_ENV
+			process.stderr.write(
+				formatGithubActionsMasks(vars, Object.values(secrets)),
+			);
+		}
+		process.stdout.write(formatEnvVars(vars, format ?? "dotenv"));
+		return;
+	}
+
 	console.log(
 		JSON.stringify(
 			{
@@ -61,6 +173,184 @@ export async function handleEnv(): Promise<void> {
 	);
 }
 
+export async function handleStatus(args: string[]): Promise<void> {
+	const env = await loadEnv();
+	const status = await env.status();
+
+	if (hasFlag(args, "--json")) {
+		console.log(JSON.stringify(status, null, 2));
+		return;
+	}
+
+	logEnvironmentStatus(status);
+}
+
+/** Flags of `buncargo logs` that take a value */
+const LOGS_VALUE_FLAGS = ["--since", "--grep"];
+
+export interface LogsArgs {
+	services: string[];
+	follow: boolean;
+	since?: string;
+	grep?: string;
+}
+
+/**
+ * Parse `buncargo logs [service...] [--follow] [--since 10m] [--grep pattern]`.
+ */
+export function parseLogsArgs(args: string[]): LogsArgs {
+	const services: string[] = [];
+	for (let index = 0; index < args.length; index++) {
+		const arg = args[index] ?? "";
+		if (LOGS_VALUE_FLAGS.includes(arg)) {
+			index++;
+		} else if (!arg.startsWith("-")) {
+			services.push(arg);
+		}
+	}
+
+	return {
+		services,
+		follow: hasFlag(args, "--follow") || hasFlag(args, "-f"),
+		since: getFlagValue(args, "--since"),
+		grep: getFlagValue(args, "--grep"),
+	};
+}
+
+export async function handleLogs(args: string[]): Promise<void> {
+	const env = await loadEnv();
+	const { services, follow, since, grep } = parseLogsArgs(args);
+
+	const unknown = services.filter((name) => !(name in env.services));
+	if (unknown.length > 0) {
+		console.error(
+			`❌ Unknown service${unknown.length > 1 ? "s" : ""}: ${unknown.join(", ")}`,
+		);
+		console.error(
+			`   Available: ${Object.keys(env.services).join(", ") || "none"}`,
+		);
+		process.exit(1);
+	}
+
+	let pattern: RegExp | undefined;
+	try {
+		pattern = grep ? new RegExp(grep) : undefined;
+	} catch {
+		console.error(`❌ Invalid --grep pattern: ${grep}`);
+		process.exit(1);
+	}
+
+	const names = services.length > 0 ? services : Object.keys(env.services);
+	const width = Math.max(0, ...names.map((name) => name.length));
+	for await (const entry of env.logs(names, { follow, since, grep: pattern })) {
+		const color =
+			PREFIX_COLORS[names.indexOf(entry.service) % PREFIX_COLORS.length] ??
+			pc.white;
+		console.log(`${color(entry.service.padEnd(width))} | ${entry.line}`);
+	}
+}
+
+/**
+ * Parse `buncargo exec <service> -- <cmd...>` (the `--` separator is optional).
+ * Only a `--` right after the service separates; later ones belong to the command.
+ */
+export function parseExecArgs(args: string[]): {
+	service?: string;
+	command: string[];
+} {
+	if (args[0] === "--") return { service: undefined, command: args.slice(1) };
+	const [service, ...rest] = args;
+	return { service, command: rest[0] === "--" ? rest.slice(1) : rest };
+}
+
+function assertKnownService(
+	env: Awaited<ReturnType<typeof loadEnv>>,
+	service: string | undefined,
+	usage: string,
+): asserts service is string {
+	if (!service) {
+		console.error(`❌ Usage: ${usage}`);
+		process.exit(1);
+	}
+	if (!(service in env.services)) {
+		console.error(`❌ Unknown service: ${service}`);
+		console.error(
+			`   Available: ${Object.keys(env.services).join(", ") || "none"}`,
+		);
+		process.exit(1);
+	}
+}
+
+export async function handleShell(args: string[]): Promise<void> {
+	const env = await loadEnv();
+	const service = args[0];
+	assertKnownService(env, service, "bunx buncargo shell <service>");
+	process.exit(await env.shell(service));
+}
+
+export async function handleExec(args: string[]): Promise<void> {
+	const env = await loadEnv();
+	const { service, command } = parseExecArgs(args);
+	assertKnownService(env, service, "bunx buncargo exec <service> -- <cmd>");
+	if (command.length === 0) {
+		console.error("❌ Usage: bunx buncargo exec <service> -- <cmd>");
+		process.exit(1);
+	}
+	process.exit(await env.execInService(service, command));
+}
+
+const SNAPSHOT_USAGE =
+	"bunx buncargo snapshot <save|restore|delete> <name> | snapshot list";
+
+export async function handleSnapshot(args: string[]): Promise<void> {
+	const env = await loadEnv();
+	const [action, name] = args;
+
+	if (action === "list") {
+		const snapshots = env.snapshots.list();
+		if (snapshots.length === 0) {
+			console.log(`No snapshots for ${env.projectName}`);
+			return;
+		}
+		for (const snapshot of snapshots) {
+			console.log(
+				`  ${pc.bold(snapshot.name)}  ${pc.dim(snapshot.createdAt)}  ${snapshot.services.join(", ")}`,
+			);
+		}
+		return;
+	}
+
+	if (!name || !["save", "restore", "delete"].includes(action ?? "")) {
+		console.error(`❌ Usage: ${SNAPSHOT_USAGE}`);
+		process.exit(1);
+	}
+
+	if (action === "delete") {
+		if (!env.snapshots.remove(name)) {
+			console.error(`❌ Snapshot "${name}" not found`);
+			process.exit(1);
+		}
+		console.log(`✓ Deleted snapshot "${name}"`);
+		return;
+	}
+
+	const start = Date.now();
+	if (action === "save") {
+		console.log(`📸 Saving snapshot "${name}"...`);
+		const snapshot = await env.snapshots.save(name);
+		console.log(
+			`✓ Saved ${snapshot.services.join(", ")} in ${Date.now() - start}ms`,
+		);
+		return;
+	}
+
+	console.log(`⏪ Restoring snapshot "${name}"...`);
+	const snapshot = await env.snapshots.restore(name);
+	console.log(
+		`✓ Restored ${snapshot.services.join(", ")} in ${Date.now() - start}ms`,
+	);
+}
+
 export async function handleTypecheck(): Promise<void> {
 	const env = await loadEnv();
 	const { runWorkspaceTypecheck } = await import("../../typecheck");
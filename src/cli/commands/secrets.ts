@@ -0,0 +1,76 @@
+import { relative } from "node:path";
+import pc from "picocolors";
+import {
+	createSecretsPassphrase,
+	getPassphraseFile,
+	getSecretsFile,
+	getSecretsPassphrase,
+	readSecretStore,
+	writeSecretStore,
+} from "../../secrets";
+import { loadEnv } from "./runtime";
+
+const SECRETS_USAGE =
+	"bunx buncargo secrets set <name> [value] | secrets remove <name> | secrets list";
+
+async function readValueFromStdin(): Promise<string> {
+	if (process.stdin.isTTY) return "";
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+	return Buffer.concat(chunks)
+		.toString("utf-8")
+		.replace(/\r?\n$/, "");
+}
+
+/**
+ * `buncargo secrets <set|remove|list>`: manage the encrypted secrets file used
+ * by `secret.file()`. Values are never printed.
+ */
+export async function handleSecrets(args: string[]): Promise<void> {
+	const env = await loadEnv();
+	const [action, name, ...rest] = args;
+	const file = relative(env.root, getSecretsFile(env.root));
+
+	if (action === "list") {
+		const names = Object.keys(readSecretStore(env.root)).sort();
+		if (names.length === 0) {
+			console.log(`No secrets in ${file}`);
+			return;
+		}
+		for (const secretName of names) {
+			console.log(`  ${pc.bold(secretName)}`);
+		}
+		return;
+	}
+
+	if (!name || !["set", "remove"].includes(action ?? "")) {
+		console.error(`❌ Usage: ${SECRETS_USAGE}`);
+		process.exit(1);
+	}
+
+	if (action === "remove") {
+		const { [name]: removed, ...remaining } = readSecretStore(env.root);
+		if (removed === undefined) {
+			console.error(`❌ Secret "${name}" is not in ${file}`);
+			process.exit(1);
+		}
+		writeSecretStore(env.root, remaining);
+		console.log(`✓ Removed "${name}" from ${file}`);
+		return;
+	}
+
+	const value = rest.length > 0 ? rest.join(" ") : await readValueFromStdin();
+	if (!value) {
+		console.error(
+			`❌ No value for "${name}": pass it as an argument or pipe it on stdin`,
+		);
+		process.exit(1);
+	}
+
+	if (!getSecretsPassphrase()) {
+		createSecretsPassphrase();
+		console.log(`🔑 Created a secrets passphrase in ${getPassphraseFile()}`);
+	}
+	writeSecretStore(env.root, { ...readSecretStore(env.root), [name]: value });
+	console.log(`✓ Saved "${name}" to ${file}`);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "bun:test";
+import { stripVTControlCharacters } from "node:util";
+import { type DashboardView, formatUptime, renderDashboard } from "./dashboard";
+
+function createView(overrides: Partial<DashboardView> = {}): DashboardView {
+	return {
+		projectName: "myapp",
+		panes: [
+			{
+				kind: "app",
+				name: "api",
+				port: 3000,
+				health: "healthy",
+				state: "up 12s",
+				tunnel: false,
+			},
+			{
+				kind: "service",
+				name: "postgres",
+				port: 5432,
+				health: "starting",
+				state: "up 3 seconds",
+				tunnel: true,
+			},
+		],
+		selected: 0,
+		logs: ["listening on :3000"],
+		notice: "",
+		columns: 100,
+		rows: 12,
+		...overrides,
+	};
+}
+
+describe("formatUptime", () => {
+	it("formats seconds, minutes and hours", () => {
+		expect(formatUptime(42_000)).toBe("42s");
+		expect(formatUptime(184_000)).toBe("3m 04s");
+		expect(formatUptime(3_720_000)).toBe("1h 02m");
+	});
+});
+
+describe("renderDashboard", () => {
+	it("fills the terminal height without exceeding its width", () => {
+		const lines = renderDashboard(createView());
+
+		expect(lines).toHaveLength(12);
+		for (const line of lines) {
+			expect(stripVTControlCharacters(line).length).toBeLessThanOrEqual(100);
+		}
+	});
+
+	it("shows panes and the selected pane's logs", () => {
+		const output = stripVTControlCharacters(
+			renderDashboard(createView()).join("\n"),
+		);
+
+		expect(output).toContain("▸ api");
+		expect(output).toContain("postgres");
+		expect(output).toContain("─ api (app)");
+		expect(output).toContain("listening on :3000");
+	});
+
+	it("keeps only the newest log lines that fit", () => {
+		const logs = Array.from({ length: 50 }, (_, index) => `line ${index}`);
+		const output = stripVTControlCharacters(
+			renderDashboard(createView({ logs })).join("\n"),
+		);
+
+		expect(output).toContain("line 49");
+		expect(output).not.toContain("line 10\n");
+	});
+});
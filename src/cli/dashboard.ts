@@ -0,0 +1,463 @@
+import { spawn } from "node:child_process";
+import { platform } from "node:os";
+import { emitKeypressEvents } from "node:readline";
+import { stripVTControlCharacters } from "node:util";
+import pc from "picocolors";
+import {
+	type PublicTunnel,
+	startPublicTunnels,
+	stopPublicTunnels,
+} from "../core/tunnel";
+import type {
+	AppConfig,
+	DevEnvironment,
+	DevServerExitCodes,
+	HealthStatus,
+	ServiceConfig,
+	TargetStatus,
+} from "../types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Lines kept per pane */
+const MAX_LOG_LINES = 1000;
+/** Width of the pane list on the left */
+const SIDEBAR_WIDTH = 40;
+/** Container log lines shown when tailing starts */
+const CONTAINER_LOG_TAIL = 100;
+
+const KEY_HELP =
+	"↑/↓ select  r restart  l container logs  o open  t tunnel  q quit";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Rendering
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DashboardPaneView {
+	kind: "app" | "service";
+	name: string;
+	port: number;
+	health: HealthStatus;
+	/** Short state text, e.g. "up 3m 04s" or "stopped" */
+	state: string;
+	/** Whether a public tunnel is open for this pane */
+	tunnel: boolean;
+}
+
+export interface DashboardView {
+	projectName: string;
+	panes: DashboardPaneView[];
+	selected: number;
+	/** Log lines of the selected pane */
+	logs: string[];
+	notice: string;
+	columns: number;
+	rows: number;
+}
+
+/** Pad (or cut) colored text to a visible width. */
+function fit(text: string, width: number): string {
+	const visible = stripVTControlCharacters(text).length;
+	if (visible <= width) return text + " ".repeat(width - visible);
+	return stripVTControlCharacters(text).slice(0, Math.max(0, width));
+}
+
+/**
+ * Format a duration in ms as a compact uptime, e.g. "42s", "3m 04s", "1h 02m".
+ */
+export function formatUptime(ms: number): string {
+	const seconds = Math.max(0, Math.floor(ms / 1000));
+	if (seconds < 60) return `${seconds}s`;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) {
+		return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+	}
+	return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function healthDot(health: HealthStatus): string {
+	switch (health) {
+		case "healthy":
+			return pc.green("●");
+		case "unhealthy":
+			return pc.red("●");
+		case "starting":
+			return pc.yellow("●");
+		default:
+			return pc.dim("○");
+	}
+}
+
+/**
+ * Render the dashboard into exactly `rows` lines no wider than `columns`.
+ */
+export function renderDashboard(view: DashboardView): string[] {
+	const { columns, rows } = view;
+	const sidebarWidth = Math.min(SIDEBAR_WIDTH, Math.floor(columns / 2));
+	const logWidth = Math.max(0, columns - sidebarWidth - 3);
+	const bodyHeight = Math.max(0, rows - 4);
+	const nameWidth = Math.max(4, ...view.panes.map((pane) => pane.name.length));
+
+	const sidebar = view.panes.map((pane, index) => {
+		const selected = index === view.selected;
+		const name = pane.name.padEnd(nameWidth);
+		const line = `${selected ? pc.cyan("▸") : " "} ${selected ? pc.bold(name) : name} ${String(pane.port).padStart(5)} ${healthDot(pane.health)} ${pc.dim(pane.state)}${pane.tunnel ? pc.cyan(" ↗") : ""}`;
+		return fit(line, sidebarWidth);
+	});
+
+	const selectedPane = view.panes[view.selected];
+	const logLines = view.logs
+		.slice(-Math.max(0, bodyHeight - 1))
+		.map((line) => fit(stripVTControlCharacters(line), logWidth));
+	const logTitle = selectedPane
+		? pc.dim(`─ ${selectedPane.name} (${selectedPane.kind}) `)
+		: "";
+
+	const lines = [
+		fit(
+			` ${pc.cyan(pc.bold(view.projectName))}  ${pc.dim(`${view.panes.length} panes`)}`,
+			columns,
+		),
+		pc.dim("─".repeat(columns)),
+	];
+	for (let row = 0; row < bodyHeight; row++) {
+		const left = sidebar[row] ?? " ".repeat(sidebarWidth);
+		const right =
+			row === 0 ? fit(logTitle, logWidth) : (logLines[row - 1] ?? "");
+		lines.push(`${left} ${pc.dim("│")} ${right}`.trimEnd());
+	}
+	lines.push(fit(view.notice ? pc.yellow(` ${view.notice}`) : "", columns));
+	lines.push(fit(pc.dim(` ${KEY_HELP}`), columns));
+
+	return lines.slice(0, rows);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Dashboard
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DashboardOptions {
+	/** Tunnels that are already open (e.g. from --expose) */
+	tunnels?: PublicTunnel[];
+	/** Called whenever a tunnel is opened or closed from the dashboard */
+	onTunnelsChange?: (tunnels: PublicTunnel[]) => void;
+	/** How often to refresh health and container state in ms. Default: 2000 */
+	refreshInterval?: number;
+}
+
+interface Pane {
+	kind: "app" | "service";
+	name: string;
+	port: number;
+	expose: boolean;
+	logs: string[];
+}
+
+function openUrl(url: string, onError: (error: Error) => void): void {
+	const os = platform();
+	const command =
+		os === "darwin" ? "open" : os === "win32" ? "explorer" : "xdg-open";
+	// A missing opener (headless Linux) emits "error" instead of throwing
+	spawn(command, [url], { detached: true, stdio: "ignore" })
+		.on("error", onError)
+		.unref();
+}
+
+/**
+ * Run dev servers under the supervisor with a full-screen terminal dashboard.
+ * Shows one pane per app and service with health, port, uptime and logs.
+ * Resolves with the apps' exit codes once the user quits.
+ */
+export async function runDashboard<
+	TServices extends Record<string, ServiceConfig>,
+	TApps extends Record<string, AppConfig>,
+>(
+	env: DevEnvironment<TServices, TApps>,
+	options: DashboardOptions = {},
+): Promise<DevServerExitCodes> {
+	const { refreshInterval = 2000, onTunnelsChange } = options;
+	const input = process.stdin;
+	const output = process.stdout;
+	if (!input.isTTY || !output.isTTY) {
+		throw new Error("--ui requires an interactive terminal");
+	}
+
+	const ports = env.ports as Record<string, number>;
+	const urls = env.urls as Record<string, string>;
+	const panes: Pane[] = [
+		...Object.entries(env.apps).map(([name, config]) => ({
+			kind: "app" as const,
+			name,
+			port: ports[name] ?? config.port,
+			expose: config.expose === true,
+			logs: [],
+		})),
+		...Object.entries(env.services).map(([name, config]) => ({
+			kind: "service" as const,
+			name,
+			port: ports[name] ?? config.port,
+			expose: config.expose === true,
+			logs: [pc.dim("press l to tail container logs")],
+		})),
+	];
+	const statuses = new Map<string, TargetStatus>();
+	const logFollowers = new Map<string, AbortController>();
+	let tunnels = [...(options.tunnels ?? [])];
+	let selected = 0;
+	let notice = "";
+	let renderTimer: ReturnType<typeof setTimeout> | undefined;
+	let quitting = false;
+
+	function appendLog(name: string, line: string): void {
+		const pane = panes.find((candidate) => candidate.name === name);
+		if (!pane) return;
+		pane.logs.push(line);
+		if (pane.logs.length > MAX_LOG_LINES) {
+			pane.logs.splice(0, pane.logs.length - MAX_LOG_LINES);
+		}
+		if (pane === panes[selected]) scheduleRender();
+	}
+
+	const supervisor = await env.superviseServers({
+		onOutput: (name, line) => appendLog(name, line),
+	});
+
+	function paneState(pane: Pane): string {
+		if (pane.kind === "app") {
+			const startedAt = supervisor.startTimes[pane.name];
+			return startedAt === undefined
+				? "stopped"
+				: `up ${formatUptime(Date.now() - startedAt)}`;
+		}
+		const status = statuses.get(pane.name);
+		if (!status) return "";
+		return status.uptime
+			? `up ${status.uptime}`
+			: (status.container ?? "missing");
+	}
+
+	function render(): void {
+		renderTimer = undefined;
+		const view: DashboardView = {
+			projectName: env.projectName,
+			panes: panes.map((pane) => ({
+				kind: pane.kind,
+				name: pane.name,
+				port: pane.port,
+				health: statuses.get(pane.name)?.health ?? "none",
+				state: paneState(pane),
+				tunnel: tunnels.some((tunnel) => tunnel.name === pane.name),
+			})),
+			selected,
+			logs: panes[selected]?.logs ?? [],
+			notice,
+			columns: output.columns ?? 80,
+			rows: output.rows ?? 24,
+		};
+		output.write(`\x1b[H${renderDashboard(view).join("\x1b[K\n")}\x1b[K\x1b[J`);
+	}
+
+	function scheduleRender(): void {
+		if (quitting || renderTimer) return;
+		renderTimer = setTimeout(render, 50);
+	}
+
+	function setNotice(message: string): void {
+		notice = message;
+		scheduleRender();
+	}
+
+	let refreshing = false;
+	async function refreshStatus(): Promise<void> {
+		if (refreshing) return;
+		refreshing = true;
+		try {
+			const status = await env.status();
+			for (const target of [...status.services, ...status.apps]) {
+				statuses.set(target.name, target);
+			}
+		} catch {
+			// Keep the last known status
+		} finally {
+			refreshing = false;
+		}
+		scheduleRender();
+	}
+
+	// ─────────────────────────────────────────────────────────────────────────
+	// Actions
+	// ─────────────────────────────────────────────────────────────────────────
+
+	function restartSelected(pane: Pane): void {
+		if (pane.kind !== "app") {
+			setNotice(`${pane.name} is a service, restart works on apps`);
+			return;
+		}
+		setNotice(`restarting ${pane.name}...`);
+		supervisor.restart(pane.name).then(
+			() => setNotice(`restarted ${pane.name}`),
+			(error: Error) => setNotice(`restart failed: ${error.message}`),
+		);
+	}
+
+	function toggleContainerLogs(pane: Pane): void {
+		if (pane.kind !== "service") {
+			setNotice(`${pane.name} is an app, its output is already shown`);
+			return;
+		}
+		const follower = logFollowers.get(pane.name);
+		if (follower) {
+			follower.abort();
+			logFollowers.delete(pane.name);
+			setNotice(`stopped tailing ${pane.name}`);
+			return;
+		}
+
+		const controller = new AbortController();
+		logFollowers.set(pane.name, controller);
+		setNotice(`tailing ${pane.name} container logs`);
+		void (async () => {
+			try {
+				for await (const entry of env.logs(pane.name, {
+					follow: true,
+					tail: CONTAINER_LOG_TAIL,
+					signal: controller.signal,
+				})) {
+					appendLog(pane.name, entry.line);
+				}
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				setNotice(`container logs failed: ${message}`);
+			} finally {
+				if (logFollowers.get(pane.name) === controller) {
+					logFollowers.delete(pane.name);
+				}
+			}
+		})();
+	}
+
+	function openSelected(pane: Pane): void {
+		const tunnel = tunnels.find((candidate) => candidate.name === pane.name);
+		const url =
+			tunnel?.publicUrl ??
+			(pane.kind === "app" ? `http://localhost:${pane.port}` : urls[pane.name]);
+		if (!url?.startsWith("http")) {
+			setNotice(`${pane.name} has no http URL to open`);
+			return;
+		}
+		setNotice(`opened ${url}`);
+		openUrl(url, (error) =>
+			setNotice(`could not open ${url}: ${error.message}`),
+		);
+	}
+
+	async function toggleTunnel(pane: Pane): Promise<void> {
+		const open = tunnels.find((tunnel) => tunnel.name === pane.name);
+		if (open) {
+			tunnels = tunnels.filter((tunnel) => tunnel !== open);
+			onTunnelsChange?.(tunnels);
+			await stopPublicTunnels([open]);
+			setNotice(`closed tunnel for ${pane.name}`);
+			return;
+		}
+		if (!pane.expose) {
+			setNotice(`${pane.name} is missing expose: true in dev.config.ts`);
+			return;
+		}
+
+		setNotice(`opening tunnel for ${pane.name}...`);
+		try {
+			const [tunnel] = await startPublicTunnels([
+				{ kind: pane.kind, name: pane.name, port: pane.port },
+			]);
+			if (!tunnel) return;
+			if (quitting) {
+				await stopPublicTunnels([tunnel]);
+				return;
+			}
+			tunnels = [...tunnels, tunnel];
+			onTunnelsChange?.(tunnels);
+			setNotice(`${pane.name} → ${tunnel.publicUrl}`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			setNotice(`tunnel failed: ${message}`);
+		}
+	}
+
+	// ─────────────────────────────────────────────────────────────────────────
+	// Terminal Lifecycle
+	// ─────────────────────────────────────────────────────────────────────────
+
+	output.write("\x1b[?1049h\x1b[?25l");
+	emitKeypressEvents(input);
+	input.setRawMode(true);
+	input.resume();
+
+	const refreshTimer = setInterval(() => {
+		void refreshStatus();
+	}, refreshInterval);
+	// Keep uptimes ticking
+	const tickTimer = setInterval(scheduleRender, 1000);
+	output.on("resize", scheduleRender);
+	void refreshStatus();
+	render();
+
+	return new Promise<DevServerExitCodes>((resolve) => {
+		async function quit(): Promise<void> {
+			if (quitting) return;
+			setNotice("stopping dev servers...");
+			render();
+			quitting = true;
+
+			clearInterval(refreshTimer);
+			clearInterval(tickTimer);
+			if (renderTimer) clearTimeout(renderTimer);
+			output.off("resize", scheduleRender);
+			input.off("keypress", onKeypress);
+			process.off("SIGTERM", onSignal);
+			for (const follower of logFollowers.values()) follower.abort();
+
+			await supervisor.stop();
+
+			input.setRawMode(false);
+			input.pause();
+			output.write("\x1b[?25h\x1b[?1049l");
+			resolve(await supervisor.wait());
+		}
+
+		function onSignal(): void {
+			void quit();
+		}
+
+		function onKeypress(
+			_text: string | undefined,
+			key: { name?: string; ctrl?: boolean } | undefined,
+		): void {
+			if (quitting || !key) return;
+			const pane = panes[selected];
+
+			if (key.name === "q" || (key.ctrl && key.name === "c")) {
+				void quit();
+			} else if (key.name === "up" || key.name === "k") {
+				selected = (selected - 1 + panes.length) % panes.length;
+				scheduleRender();
+			} else if (key.name === "down" || key.name === "j") {
+				selected = (selected + 1) % panes.length;
+				scheduleRender();
+			} else if (pane && key.name === "r") {
+				restartSelected(pane);
+			} else if (pane && key.name === "l") {
+				toggleContainerLogs(pane);
+			} else if (pane && key.name === "o") {
+				openSelected(pane);
+			} else if (pane && key.name === "t") {
+				void toggleTunnel(pane);
+			}
+		}
+
+		input.on("keypress", onKeypress);
+		process.on("SIGTERM", onSignal);
+	});
+}
@@ -8,12 +8,14 @@ import {
 } from "../core/tunnel";
 import { spawnWatchdog, startHeartbeat, stopHeartbeat } from "../core/watchdog";
 import { logPublicUrls } from "../environment/logging";
+import { redactSecrets } from "../secrets";
 import type {
 	AppConfig,
 	CliOptions,
 	DevEnvironment,
 	ServiceConfig,
 } from "../types";
+import { runDashboard } from "./dashboard";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // CLI Runner
@@ -26,8 +28,10 @@ const ACCEPTED_FLAGS = [
 	"--reset",
 	"--migrate",
 	"--seed",
+	"--force-migrate",
 	"--up-only",
 	"--expose",
+	"--ui",
 ] as const;
 
 /**
@@ -43,8 +47,10 @@ Options:
   --reset     Stop containers and remove volumes (fresh start)
   --migrate   Run migrations and exit
   --seed      Run migrations and seeders, then exit
+  --force-migrate  Run migrations even if their inputs are unchanged
   --up-only   Start containers and run migrations, then exit (no dev servers)
   --expose    Expose configured targets via public quick tunnels
+  --ui        Interactive dashboard with a pane per app and service
 
 Examples:
   bun dev              Start dev environment with all services
@@ -53,6 +59,7 @@ Examples:
   bun dev --reset      Stop containers and remove all data
   bun dev --expose     Expose all targets with expose: true
   bun dev --expose=api,web  Expose specific targets
+  bun dev --ui         Start with the interactive dashboard
 `);
 }
 
@@ -143,7 +150,8 @@ export async function runCli<
 	// All other paths need containers + migrations
 	// Skip automatic seeding when --seed flag is used (CLI handles it explicitly)
 	const skipSeed = args.includes("--seed");
-	await env.start({ startServers: false, wait: true, skipSeed });
+	const forceMigrate = args.includes("--force-migrate");
+	await env.start({ startServers: false, wait: true, skipSeed, forceMigrate });
 
 	if (exposeRequested) {
 		const { targets, unknownNames, notEnabledNames } = resolveExposeTargets(
@@ -201,10 +209,10 @@ export async function runCli<
 		if (result.exitCode !== 0) {
 			console.error("❌ Seeding failed");
 			if (result.stderr) {
-				console.error(result.stderr);
+				console.error(redactSecrets(result.stderr));
 			}
 			if (result.stdout) {
-				console.error(result.stdout);
+				console.error(redactSecrets(result.stdout));
 			}
 			await cleanupTunnels();
 			process.exit(1);
@@ -234,10 +242,50 @@ export async function runCli<
 		startHeartbeat(env.projectName);
 	}
 
-	// Build command: use provided command or auto-build from apps config
-	const command = devServersCommand ?? buildDevServersCommand(env.apps);
+	// Interactive dashboard: supervises dev servers itself
+	if (hasFlag(args, "--ui") && !devServersCommand) {
+		await runDashboard(env, {
+			tunnels,
+			onTunnelsChange: (next) => {
+				tunnels = next;
+				env.setPublicUrls(
+					Object.fromEntries(
+						next.map((tunnel) => [tunnel.name, tunnel.publicUrl]),
+					) as typeof env.publicUrls,
+				);
+			},
+		});
+		stopHeartbeat();
+		await cleanupTunnels();
+		return;
+	}
+
+	// Custom command: run it as-is with inherited stdio
+	if (devServersCommand) {
+		if (hasFlag(args, "--ui")) {
+			console.warn("⚠️  --ui is not available with devServersCommand");
+		}
+		// Kill any existing processes on app ports before starting
+		await killProcessesOnAppPorts(env.apps, env.ports);
+
+		console.log("");
+		console.log("🔧 Starting dev servers...");
+		console.log("");
+
+		await runCommand(devServersCommand, env.root, env.buildEnvVars(), {
+			onSignal: async () => {
+				await cleanupTunnels();
+				stopHeartbeat();
+			},
+		});
+
+		// Clean up heartbeat on exit
+		stopHeartbeat();
+		await cleanupTunnels();
+		return;
+	}
 
-	if (!command) {
+	if (Object.keys(env.apps).length === 0) {
 		console.log("✅ Containers ready. No apps configured.");
 		// Keep process alive if no apps
 		await new Promise(() => {});
@@ -245,58 +293,41 @@ export async function runCli<
 		return;
 	}
 
-	// Kill any existing processes on app ports before starting
-	await killProcessesOnAppPorts(env.apps, env.ports);
-
-	// Start dev servers interactively
+	// Start dev servers under the built-in supervisor
 	console.log("");
 	console.log("🔧 Starting dev servers...");
 	console.log("");
 
-	await runCommand(command, env.root, env.buildEnvVars(), {
-		onSignal: async () => {
-			await cleanupTunnels();
-			stopHeartbeat();
-		},
-	});
+	const supervisor = await env.superviseServers();
+	let interrupted = false;
+
+	const shutdown = async () => {
+		interrupted = true;
+		await cleanupTunnels();
+		stopHeartbeat();
+		await supervisor.stop();
+	};
+	process.on("SIGINT", shutdown);
+	process.on("SIGTERM", shutdown);
+
+	const exitCodes = await supervisor.wait();
+	process.off("SIGINT", shutdown);
+	process.off("SIGTERM", shutdown);
 
 	// Clean up heartbeat on exit
 	stopHeartbeat();
 	await cleanupTunnels();
-}
 
-// ═══════════════════════════════════════════════════════════════════════════
-// Command Building
-// ═══════════════════════════════════════════════════════════════════════════
-
-/**
- * Build a concurrently command from the apps config.
- */
-function buildDevServersCommand(
-	apps: Record<string, AppConfig>,
-): string | null {
-	const appEntries = Object.entries(apps);
-	if (appEntries.length === 0) return null;
-
-	// Build commands for each app
-	const commands: string[] = [];
-	const names: string[] = [];
-	const colors = ["blue", "green", "yellow", "magenta", "cyan", "red"];
-
-	for (const [name, config] of appEntries) {
-		names.push(name);
-		const cwdPart = config.cwd ? `--cwd ${config.cwd}` : "";
-		commands.push(
-			`"bun run ${cwdPart} ${config.devCommand}"`.replace(/\s+/g, " ").trim(),
+	const failed = Object.entries(exitCodes).filter(
+		([, code]) => code !== 0 && code !== null,
+	);
+	if (!interrupted && failed.length > 0) {
+		throw new Error(
+			`Dev server${failed.length > 1 ? "s" : ""} exited with errors: ${failed
+				.map(([name, code]) => `${name} (code ${code})`)
+				.join(", ")}`,
 		);
 	}
-
-	// Use concurrently to run all apps
-	const namesArg = `-n ${names.join(",")}`;
-	const colorsArg = `-c ${colors.slice(0, names.length).join(",")}`;
-	const commandsArg = commands.join(" ");
-
-	return `bun concurrently ${namesArg} ${colorsArg} ${commandsArg}`;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -1,4 +1,6 @@
 import { describe, expect, it } from "bun:test";
+import { service } from "../docker-compose/services";
+import { secret } from "../secrets";
 import type { AppConfig, DevConfig, ServiceConfig } from "../types";
 import { defineDevConfig, mergeConfigs, validateConfig } from ".";
 
@@ -140,6 +142,19 @@ describe("validateConfig", () => {
 			);
 		});
 
+		it("returns error when healthPath is not absolute", () => {
+			const errors = validateConfig({
+				projectPrefix: "myapp",
+				services: {
+					search: { port: 7700, healthPath: "health", docker: { image: "x" } },
+				},
+			});
+
+			expect(errors).toContain(
+				'Service "search" healthPath must start with "/"',
+			);
+		});
+
 		it("accepts valid service port", () => {
 			const config = {
 				projectPrefix: "myapp",
@@ -193,6 +208,136 @@ describe("validateConfig", () => {
 			expect(errors).toContain('App "api" must have a valid port number');
 		});
 
+		it("returns error for unknown dependsOn entries", () => {
+			const config = {
+				projectPrefix: "myapp",
+				services: {
+					postgres: { port: 5432 },
+				},
+				apps: {
+					api: {
+						port: 3000,
+						devCommand: "bun run dev",
+						dependsOn: ["postgres", "redis"],
+					},
+				},
+			} as unknown as DevConfig<
+				Record<string, ServiceConfig>,
+				Record<string, AppConfig>
+			>;
+
+			const errors = validateConfig(config);
+
+			expect(errors).toEqual([
+				'App "api" dependsOn unknown app or service "redis"',
+			]);
+		});
+
+		it("returns error for circular app dependencies", () => {
+			const config = {
+				projectPrefix: "myapp",
+				services: {
+					postgres: { port: 5432 },
+				},
+				apps: {
+					api: { port: 3000, devCommand: "bun run dev", dependsOn: ["web"] },
+					web: { port: 5173, devCommand: "bun run dev", dependsOn: ["api"] },
+				},
+			} as unknown as DevConfig<
+				Record<string, ServiceConfig>,
+				Record<string, AppConfig>
+			>;
+
+			const errors = validateConfig(config);
+
+			expect(errors).toContain(
+				"Apps have a circular dependency: api -> web -> api",
+			);
+		});
+
+		it("returns errors for invalid migration dependencies", () => {
+			const config = {
+				projectPrefix: "myapp",
+				services: {
+					postgres: { port: 5432 },
+				},
+				prisma: {},
+				migrations: [
+					{ name: "clickhouse", command: "a", dependsOn: ["prisma"] },
+					{ name: "views", command: "b", dependsOn: ["views", "missing"] },
+					{ name: "foo", command: "c", dependsOn: ["bar"], service: "redis" },
+					{ name: "bar", command: "d", dependsOn: ["foo"] },
+				],
+			} as unknown as DevConfig<
+				Record<string, ServiceConfig>,
+				Record<string, AppConfig>
+			>;
+
+			const errors = validateConfig(config);
+
+			expect(errors).toEqual([
+				'Migration "views" cannot depend on itself',
+				'Migration "views" dependsOn unknown migration "missing"',
+				'Migration "foo" targets unknown service "redis"',
+				"Migrations have a circular dependency: foo -> bar -> foo",
+			]);
+		});
+
+		it("returns error for invalid restart settings", () => {
+			const config = {
+				projectPrefix: "myapp",
+				services: {
+					postgres: { port: 5432 },
+				},
+				apps: {
+					api: {
+						port: 3000,
+						devCommand: "bun run dev",
+						restart: "sometimes",
+						maxRestarts: -1,
+					},
+				},
+			} as unknown as DevConfig<
+				Record<string, ServiceConfig>,
+				Record<string, AppConfig>
+			>;
+
+			const errors = validateConfig(config);
+
+			expect(errors).toContain(
+				'App "api" restart must be one of: never, on-failure, always',
+			);
+			expect(errors).toContain(
+				'App "api" maxRestarts must be a non-negative integer',
+			);
+		});
+
+		it("returns error for unknown envSchema types", () => {
+			const config = {
+				...createValidConfig(),
+				envSchema: { DATABASE_URL: "uri" },
+				apps: {
+					api: {
+						port: 3000,
+						devCommand: "bun run dev",
+						envSchema: { PORT: { type: "int" } },
+					},
+				},
+			} as unknown as DevConfig<
+				Record<string, ServiceConfig>,
+				Record<string, AppConfig>
+			>;
+
+			const errors = validateConfig(config);
+
+			expect(errors).toContain(
+				"envSchema.DATABASE_URL type must be one of: string, url, port, number, integer, boolean",
+			);
+			expect(errors).toContain(
+				'App "api" envSchema.PORT type must be one of: string, url, port, number, integer, boolean',
+			);
+		});
+
 		it("accepts valid app config", () => {
 			const config = createValidConfig();
 
@@ -429,4 +574,93 @@ describe("envVars publicUrls typing", () => {
 
 		expect(config.projectPrefix).toBe("typed");
 	});
+
+	it("keeps app typing when apps define their own env", () => {
+		const config = defineDevConfig({
+			projectPrefix: "typed",
+			services: { postgres: { port: 5432 } },
+			apps: {
+				api: {
+					port: 3000,
+					devCommand: "bun run dev",
+					expose: true,
+					env: ({ port }) => ({ PORT: port }),
+				},
+			},
+			envVars: (_ports, _urls, { publicUrls }) => {
+				// @ts-expect-error - "web" is not an app
+				const _web = publicUrls.web;
+				return { PUBLIC_API_URL: publicUrls.api ?? "" };
+			},
+		});
+
+		expect(config.apps?.api.env).toBeFunction();
+	});
+
+	it("types ctx.secrets from the secrets section", () => {
+		const config = defineDevConfig({
+			projectPrefix: "typed",
+			services: { postgres: { port: 5432 } },
+			secrets: {
+				STRIPE_KEY: [secret.env(), secret.value("sk_test")],
+			},
+			envVars: (_ports, _urls, { secrets }) => {
+				// @ts-expect-error - "GITHUB_TOKEN" is not a configured secret
+				const _token = secrets.GITHUB_TOKEN;
+				return { STRIPE_KEY: secrets.STRIPE_KEY };
+			},
+		});
+
+		expect(Object.keys(config.secrets ?? {})).toEqual(["STRIPE_KEY"]);
+	});
+
+	it("types the app env context from the config", () => {
+		const config = defineDevConfig({
+			projectPrefix: "typed",
+			services: { postgres: { port: 5432 } },
+			secrets: { STRIPE_KEY: secret.value("sk_test") },
+			apps: {
+				api: { port: 3000, devCommand: "bun run dev" },
+				web: {
+					port: 5173,
+					devCommand: "bun run dev",
+					env: ({ name, urls, secrets }) => {
+						const _name: "api" | "web" = name;
+						// @ts-expect-error - "apii" is not an app
+						const _api = urls.apii;
+						// @ts-expect-error - "postgress" is not a service
+						const _db = urls.postgress;
+						// @ts-expect-error - "GITHUB_TOKEN" is not a configured secret
+						const _token = secrets.GITHUB_TOKEN;
+						return { API_URL: urls.api, STRIPE_KEY: secrets.STRIPE_KEY };
+					},
+				},
+			},
+		});
+
+		expect(config.apps?.web.env).toBeFunction();
+	});
+
+	it("adds a URL key per postgres database", () => {
+		const config = defineDevConfig({
+			projectPrefix: "typed",
+			services: {
+				postgres: service.postgres({ databases: ["app", "app_test"] }),
+				redis: service.redis(),
+			},
+			apps: {
+				api: { port: 3000, devCommand: "bun run dev" },
+			},
+			envVars: (_ports, urls) => {
+				const testUrl: string = urls.postgres_app_test;
+				// @ts-expect-error - "staging" is not a configured database
+				const _staging = urls.postgres_staging;
+				// @ts-expect-error - redis has no databases
+				const _redis = urls.redis_app;
+				return { TEST_DATABASE_URL: testUrl };
+			},
+		});
+
+		expect(config.services.postgres.databases).toEqual(["app", "app_test"]);
+	});
 });
@@ -1,30 +1,47 @@
 import type {
 	AppConfig,
+	AppsConfig,
 	DevConfig,
 	DevHooks,
 	DevOptions,
 	DockerComposeGenerationOptions,
+	DockerServicePreset,
+	EnvSchema,
 	EnvVarsBuilder,
+	InferredApps,
 	MigrationConfig,
 	PrismaConfig,
+	SecretSource,
 	SeedConfig,
 	ServiceConfig,
 } from "../types";
 
 export function defineDevConfig<
 	TServices extends Record<string, ServiceConfig>,
-	TApps extends Record<string, AppConfig> = Record<string, never>,
+	TApps = Record<string, AppConfig>,
+	TSecrets extends Record<string, SecretSource> = Record<string, never>,
 >(config: {
 	projectPrefix: string;
 	services: TServices;
-	apps?: TApps;
-	envVars?: EnvVarsBuilder<TServices, TApps>;
-	hooks?: DevHooks<TServices, TApps>;
+	apps?: AppsConfig<TServices, TApps, keyof TSecrets & string>;
+	envVars?: EnvVarsBuilder<
+		TServices,
+		InferredApps<TApps>,
+		keyof TSecrets & string
+	>;
+	secrets?: TSecrets;
+	envSchema?: EnvSchema;
+	hooks?: DevHooks<TServices, InferredApps<TApps>>;
 	migrations?: MigrationConfig[];
-	seed?: SeedConfig<TServices, TApps>;
+	seed?: SeedConfig<TServices, InferredApps<TApps>>;
 	prisma?: PrismaConfig;
 	options?: DevOptions;
 	docker?: DockerComposeGenerationOptions;
-}): DevConfig<TServices, TApps> {
-	return config as DevConfig<TServices, TApps>;
+	presets?: DockerServicePreset[];
+}): DevConfig<TServices, InferredApps<TApps>, keyof TSecrets & string> {
+	return config as DevConfig<
+		TServices,
+		InferredApps<TApps>,
+		keyof TSecrets & string
+	>;
 }
@@ -17,6 +17,8 @@ export function mergeConfigs<
 		seed: overrides.seed ?? base.seed,
 		options: { ...base.options, ...overrides.options },
 		docker: { ...base.docker, ...overrides.docker },
+		presets: [...(base.presets ?? []), ...(overrides.presets ?? [])],
+		secrets: { ...base.secrets, ...overrides.secrets },
 	};
 }
 
@@ -1,11 +1,47 @@
 import { isAbsolute, normalize } from "node:path";
-import type { AppConfig, DevConfig, ServiceConfig } from "../types";
+import { findCycle } from "../core/graph";
+import { hasServicePreset } from "../docker-compose/services";
+import { ENV_VAR_TYPES, isStandardSchema } from "../environment/env-schema";
+import type {
+	AppConfig,
+	DevConfig,
+	EnvSchema,
+	RestartPolicy,
+	ServiceConfig,
+} from "../types";
 
-const BUILTIN_DOCKER_PRESETS = new Set(["postgres", "redis", "clickhouse"]);
+const RESTART_POLICIES: RestartPolicy[] = ["never", "on-failure", "always"];
 
-function inferBuiltInPreset(serviceName: string): string | null {
-	const normalized = serviceName.toLowerCase();
-	return BUILTIN_DOCKER_PRESETS.has(normalized) ? normalized : null;
+function isGlobList(value: unknown): boolean {
+	return (
+		Array.isArray(value) &&
+		value.every((pattern) => typeof pattern === "string" && pattern !== "")
+	);
+}
+
+function validateEnvSchema(
+	label: string,
+	schema: EnvSchema,
+	errors: string[],
+): void {
+	if (typeof schema !== "object" || schema === null) {
+		errors.push(
+			`${label} must be a Standard Schema validator or a record of env var descriptors`,
+		);
+		return;
+	}
+	if (isStandardSchema(schema)) return;
+	for (const [key, descriptor] of Object.entries(schema)) {
+		const type =
+			typeof descriptor === "string"
+				? descriptor
+				: (descriptor?.type ?? "string");
+		if (!ENV_VAR_TYPES.includes(type)) {
+			errors.push(
+				`${label}.${key} type must be one of: ${ENV_VAR_TYPES.join(", ")}`,
+			);
+		}
+	}
 }
 
 export function validateConfig<
@@ -14,6 +50,19 @@ export function validateConfig<
 >(config: DevConfig<TServices, TApps>): string[] {
 	const errors: string[] = [];
 	const composeServiceNames = new Set<string>();
+	const configPresets = new Set<string>();
+
+	for (const preset of config.presets ?? []) {
+		if (!preset || typeof preset.preset !== "string" || !preset.build) {
+			errors.push(
+				"presets must contain presets created with defineDockerService()",
+			);
+		} else {
+			configPresets.add(preset.preset);
+		}
+	}
+	const isKnownPreset = (name: string) =>
+		configPresets.has(name) || hasServicePreset(name);
 
 	if (!config.projectPrefix) {
 		errors.push("projectPrefix is required");
@@ -42,6 +91,13 @@ export function validateConfig<
 				`Service "${name}" secondaryPort must be between 1 and 65535`,
 			);
 		}
+		if (
+			service.healthPath !== undefined &&
+			(typeof service.healthPath !== "string" ||
+				!service.healthPath.startsWith("/"))
+		) {
+			errors.push(`Service "${name}" healthPath must start with "/"`);
+		}
 
 		const composeServiceName = service.serviceName ?? name;
 		if (composeServiceNames.has(composeServiceName)) {
@@ -52,8 +108,8 @@ export function validateConfig<
 		composeServiceNames.add(composeServiceName);
 
 		const dockerConfig = service.docker;
-		const preset = inferBuiltInPreset(name);
-		if (!dockerConfig && !preset) {
+		const hasPreset = isKnownPreset(name.toLowerCase());
+		if (!dockerConfig && !hasPreset) {
 			errors.push(
 				`Service "${name}" must define docker config (helper or raw) because it has no built-in preset.`,
 			);
@@ -65,10 +121,7 @@ export function validateConfig<
 			dockerConfig.kind === "preset"
 		) {
 			const presetName = dockerConfig.preset;
-			if (
-				typeof presetName !== "string" ||
-				!BUILTIN_DOCKER_PRESETS.has(presetName)
-			) {
+			if (typeof presetName !== "string" || !isKnownPreset(presetName)) {
 				errors.push(
 					`Service "${name}" has invalid docker preset "${presetName}".`,
 				);
@@ -107,20 +160,127 @@ export function validateConfig<
 		if (!app.devCommand) {
 			errors.push(`App "${name}" must have a devCommand`);
 		}
+		for (const dependency of app.dependsOn ?? []) {
+			if (dependency === name) {
+				errors.push(`App "${name}" cannot depend on itself`);
+			} else if (
+				!(dependency in (config.apps ?? {})) &&
+				!(dependency in (config.services ?? {}))
+			) {
+				errors.push(
+					`App "${name}" dependsOn unknown app or service "${dependency}"`,
+				);
+			}
+		}
+		if (app.restart && !RESTART_POLICIES.includes(app.restart)) {
+			errors.push(
+				`App "${name}" restart must be one of: ${RESTART_POLICIES.join(", ")}`,
+			);
+		}
+		if (
+			app.maxRestarts !== undefined &&
+			(!Number.isInteger(app.maxRestarts) || app.maxRestarts < 0)
+		) {
+			errors.push(`App "${name}" maxRestarts must be a non-negative integer`);
+		}
+		if (
+			app.restartDelay !== undefined &&
+			(typeof app.restartDelay !== "number" || app.restartDelay < 0)
+		) {
+			errors.push(`App "${name}" restartDelay must be a non-negative number`);
+		}
+		if (app.env !== undefined && typeof app.env !== "function") {
+			errors.push(`App "${name}" env must be a function`);
+		}
+		if (
+			typeof app.envFile === "object" &&
+			app.envFile.path !== undefined &&
+			(typeof app.envFile.path !== "string" || !app.envFile.path)
+		) {
+			errors.push(`App "${name}" envFile.path must be a non-empty string`);
+		}
+		if (app.envSchema !== undefined) {
+			validateEnvSchema(`App "${name}" envSchema`, app.envSchema, errors);
+		}
+	}
+
+	const appCycle = findCycle(
+		Object.fromEntries(
+			Object.entries(config.apps ?? {}).map(([name, app]) => [
+				name,
+				(app.dependsOn ?? []).filter((dependency) => dependency !== name),
+			]),
+		),
+	);
+	if (appCycle) {
+		errors.push(`Apps have a circular dependency: ${appCycle.join(" -> ")}`);
 	}
 
+	// The Prisma migration is added automatically and can be depended on
+	const migrationNames = new Set(config.prisma ? ["prisma"] : []);
 	for (const migration of config.migrations ?? []) {
 		if (!migration.name) {
 			errors.push("Migration must have a name");
+		} else if (migrationNames.has(migration.name)) {
+			errors.push(`Migration name "${migration.name}" is used more than once`);
 		}
+		migrationNames.add(migration.name);
 		if (!migration.command) {
 			errors.push(`Migration "${migration.name}" must have a command`);
 		}
+		if (migration.inputs !== undefined && !isGlobList(migration.inputs)) {
+			errors.push(
+				`Migration "${migration.name}" inputs must be a list of glob patterns`,
+			);
+		}
+	}
+
+	for (const migration of config.migrations ?? []) {
+		for (const dependency of migration.dependsOn ?? []) {
+			if (dependency === migration.name) {
+				errors.push(`Migration "${migration.name}" cannot depend on itself`);
+			} else if (!migrationNames.has(dependency)) {
+				errors.push(
+					`Migration "${migration.name}" dependsOn unknown migration "${dependency}"`,
+				);
+			}
+		}
+		if (
+			migration.service !== undefined &&
+			!(migration.service in (config.services ?? {}))
+		) {
+			errors.push(
+				`Migration "${migration.name}" targets unknown service "${migration.service}"`,
+			);
+		}
+	}
+
+	const migrationCycle = findCycle(
+		Object.fromEntries(
+			(config.migrations ?? []).map((migration) => [
+				migration.name,
+				(migration.dependsOn ?? []).filter(
+					(dependency) => dependency !== migration.name,
+				),
+			]),
+		),
+	);
+	if (migrationCycle) {
+		errors.push(
+			`Migrations have a circular dependency: ${migrationCycle.join(" -> ")}`,
+		);
+	}
+
+	if (config.envSchema !== undefined) {
+		validateEnvSchema("envSchema", config.envSchema, errors);
 	}
 
 	if (config.seed && !config.seed.command) {
 		errors.push("Seed must have a command");
 	}
+	if (config.seed?.inputs !== undefined && !isGlobList(config.seed.inputs)) {
+		errors.push("Seed inputs must be a list of glob patterns");
+	}
 
 	return errors;
 }
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "bun:test";
+import { assertAcyclic, findCycle } from "./graph";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// findCycle Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("findCycle", () => {
+	it("returns null for an acyclic graph", () => {
+		expect(
+			findCycle({ web: ["api", "postgres"], worker: ["api"], api: [] }),
+		).toBeNull();
+	});
+
+	it("ignores dependencies outside the graph", () => {
+		expect(findCycle({ api: ["postgres", "redis"] })).toBeNull();
+	});
+
+	it("returns the cycle path", () => {
+		expect(
+			findCycle({ web: ["api"], api: ["worker"], worker: ["api"] }),
+		).toEqual(["api", "worker", "api"]);
+	});
+
+	it("detects self dependencies", () => {
+		expect(findCycle({ api: ["api"] })).toEqual(["api", "api"]);
+	});
+});
+
+describe("assertAcyclic", () => {
+	it("throws with the cycle in the message", () => {
+		expect(() => assertAcyclic({ a: ["b"], b: ["a"] }, "app")).toThrow(
+			"Circular app dependency: a -> b -> a",
+		);
+	});
+});
@@ -0,0 +1,52 @@
+/**
+ * Dependency graph helpers shared by app startup ordering and config validation.
+ * A graph maps each node to the names it depends on; dependencies that are not
+ * nodes of the graph themselves (e.g. services) are treated as leaves.
+ */
+
+export type DependencyGraph = Record<string, readonly string[]>;
+
+/**
+ * Find a dependency cycle in the graph.
+ * Returns the cycle as a path that starts and ends with the same node, or null.
+ */
+export function findCycle(graph: DependencyGraph): string[] | null {
+	const visiting = new Set<string>();
+	const visited = new Set<string>();
+	const path: string[] = [];
+
+	function visit(node: string): string[] | null {
+		if (visiting.has(node)) {
+			return [...path.slice(path.indexOf(node)), node];
+		}
+		if (visited.has(node)) return null;
+
+		visiting.add(node);
+		path.push(node);
+		for (const dependency of graph[node] ?? []) {
+			if (!(dependency in graph)) continue;
+			const cycle = visit(dependency);
+			if (cycle) return cycle;
+		}
+		path.pop();
+		visiting.delete(node);
+		visited.add(node);
+		return null;
+	}
+
+	for (const node of Object.keys(graph)) {
+		const cycle = visit(node);
+		if (cycle) return cycle;
+	}
+	return null;
+}
+
+/**
+ * Throw if the graph contains a cycle.
+ */
+export function assertAcyclic(graph: DependencyGraph, label: string): void {
+	const cycle = findCycle(graph);
+	if (cycle) {
+		throw new Error(`Circular ${label} dependency: ${cycle.join(" -> ")}`);
+	}
+}
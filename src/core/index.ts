@@ -1,7 +1,10 @@
 // Re-export core runtime utilities only.
+export * from "./graph";
 export * from "./network";
+export * from "./port-allocation";
 export * from "./ports";
 export * from "./process";
+export * from "./registry";
 export * from "./tunnel";
 export * from "./utils";
 export * from "./watchdog";
@@ -1,3 +1,4 @@
+import { createConnection } from "node:net";
 import { networkInterfaces } from "node:os";
 import type { AppConfig } from "../types";
 import { sleep } from "./utils";
@@ -39,6 +40,8 @@ export interface WaitForServerOptions {
 	interval?: number;
 	/** Log progress */
 	verbose?: boolean;
+	/** Give up (rejecting) once aborted */
+	signal?: AbortSignal;
 }
 
 /**
@@ -48,12 +51,13 @@ export async function waitForServer(
 	url: string,
 	options: WaitForServerOptions = {},
 ): Promise<void> {
-	const { timeout = 30000, interval = 2000, verbose = false } = options;
+	const { timeout = 30000, interval = 2000, verbose = false, signal } = options;
 
 	const start = Date.now();
 	let attempts = 0;
 
 	while (Date.now() - start < timeout) {
+		if (signal?.aborted) throw new Error(`Stopped waiting for ${url}`);
 		attempts++;
 		const controller = new AbortController();
 		const timeoutId = setTimeout(() => controller.abort(), 5000);
@@ -86,6 +90,27 @@ export async function waitForServer(
 	);
 }
 
+/**
+ * Check once whether an HTTP server responds (2xx, 3xx or 404).
+ */
+export async function isServerResponding(
+	url: string,
+	timeout = 2000,
+): Promise<boolean> {
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), timeout);
+	try {
+		const response = await fetch(url, {
+			signal: controller.signal as RequestInit["signal"],
+		});
+		return response.ok || response.status === 404;
+	} catch {
+		return false;
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
 /**
  * Wait for all dev servers to be ready.
  */
@@ -150,3 +175,24 @@ export async function isPortAvailable(port: number): Promise<boolean> {
 		return true;
 	}
 }
+
+/**
+ * Check if something accepts TCP connections on a local port.
+ * Unlike isPortAvailable, this does not assume the listener speaks HTTP.
+ */
+export function isPortListening(
+	port: number,
+	options: { host?: string; timeout?: number } = {},
+): Promise<boolean> {
+	const { host = "127.0.0.1", timeout = 500 } = options;
+	return new Promise((resolve) => {
+		const socket = createConnection({ port, host });
+		const finish = (listening: boolean) => {
+			socket.destroy();
+			resolve(listening);
+		};
+		socket.setTimeout(timeout, () => finish(false));
+		socket.once("connect", () => finish(true));
+		socket.once("error", () => finish(false));
+	});
+}
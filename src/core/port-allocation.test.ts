@@ -0,0 +1,142 @@
+import { describe, expect, it } from "bun:test";
+import { mkdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	choosePortOffset,
+	clearSavedPortOffset,
+	findBlockedPorts,
+	findFreePortOffset,
+	isPortBindable,
+	readSavedPortOffset,
+	savePortOffset,
+} from "./port-allocation";
+import { computeDevIdentity } from "./ports";
+
+/** Fake probe that reports the given ports as taken */
+function takenPorts(...ports: number[]) {
+	return async (port: number) => !ports.includes(port);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// isPortBindable Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("isPortBindable", () => {
+	it("reports a port with a listener as taken", async () => {
+		const server = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+		try {
+			expect(await isPortBindable(server.port as number)).toBe(false);
+		} finally {
+			server.stop(true);
+		}
+	});
+
+	it("reports a released port as free", async () => {
+		const server = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+		const port = server.port as number;
+		server.stop(true);
+		expect(await isPortBindable(port)).toBe(true);
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Offset Selection Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("findBlockedPorts", () => {
+	it("lists the taken ports with their names", async () => {
+		const blocked = await findBlockedPorts(
+			{ postgres: 5432, api: 3000 },
+			12,
+			takenPorts(5444),
+		);
+		expect(blocked).toEqual([{ name: "postgres", port: 5444 }]);
+	});
+});
+
+describe("findFreePortOffset", () => {
+	const basePorts = { postgres: 5432, redis: 6379 };
+
+	it("moves the main checkout into the worktree range", async () => {
+		expect(await findFreePortOffset(basePorts, 0, takenPorts(5432))).toBe(10);
+	});
+
+	it("skips offsets with any taken port", async () => {
+		expect(
+			await findFreePortOffset(basePorts, 20, takenPorts(5453, 6401)),
+		).toBe(23);
+	});
+
+	it("wraps around after the last offset", async () => {
+		expect(await findFreePortOffset(basePorts, 99, takenPorts())).toBe(10);
+	});
+
+	it("returns null when every offset is taken", async () => {
+		expect(await findFreePortOffset(basePorts, 0, async () => false)).toBe(
+			null,
+		);
+	});
+});
+
+describe("choosePortOffset", () => {
+	const basePorts = { postgres: 5432, redis: 6379 };
+
+	it("keeps the current offset while its ports are free", async () => {
+		expect(await choosePortOffset(basePorts, 0, 0, takenPorts())).toEqual({
+			offset: 0,
+			blocked: [],
+		});
+	});
+
+	it("returns to the default offset once it is free again", async () => {
+		expect(await choosePortOffset(basePorts, 10, 0, takenPorts())).toEqual({
+			offset: 0,
+			blocked: [],
+		});
+	});
+
+	it("keeps a saved offset while the default one is taken", async () => {
+		expect(await choosePortOffset(basePorts, 10, 0, takenPorts(5432))).toEqual({
+			offset: 10,
+			blocked: [],
+		});
+	});
+
+	it("moves to the next free offset when a current port is taken", async () => {
+		expect(await choosePortOffset(basePorts, 0, 0, takenPorts(6379))).toEqual({
+			offset: 10,
+			blocked: [{ name: "redis", port: 6379 }],
+		});
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Persisted Offset Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("savePortOffset", () => {
+	it("keeps offsets per suffix and feeds them into the dev identity", () => {
+		const testDir = join(tmpdir(), `buncargo-port-offset-test-${Date.now()}`);
+		mkdirSync(testDir, { recursive: true });
+		try {
+			expect(readSavedPortOffset(testDir)).toBeUndefined();
+
+			savePortOffset(testDir, undefined, 42);
+			savePortOffset(testDir, "test", 57);
+
+			expect(readSavedPortOffset(testDir)).toBe(42);
+			expect(readSavedPortOffset(testDir, "test")).toBe(57);
+			expect(
+				computeDevIdentity({ projectPrefix: "myapp", root: testDir })
+					.portOffset,
+			).toBe(42);
+
+			clearSavedPortOffset(testDir, undefined);
+			expect(readSavedPortOffset(testDir)).toBeUndefined();
+			expect(readSavedPortOffset(testDir, "test")).toBe(57);
+		} finally {
+			rmSync(testDir, { recursive: true, force: true });
+		}
+	});
+});
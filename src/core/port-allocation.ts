@@ -0,0 +1,205 @@
+/**
+ * Host port collision detection and fallback offsets.
+ *
+ * Worktree offsets are hashed into 90 values, so two worktrees (or a worktree
+ * and an unrelated local process) can want the same host ports. Before
+ * containers start, the ports are probed; on a collision the next free offset
+ * is picked and saved per worktree, so the ports stay stable afterwards:
+ *
+ *   .buncargo/port-offset.json
+ *
+ * The saved offset is dropped again on a later cold start once the default
+ * offset is free, so one transient collision does not move a worktree for good.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createServer } from "node:net";
+import { dirname, join } from "node:path";
+import { execAsync, getProcessOnPort } from "./process";
+
+/** First and last offset handed out to worktrees and fallbacks */
+export const MIN_PORT_OFFSET = 10;
+export const MAX_PORT_OFFSET = 99;
+
+const DEFAULT_OFFSET_KEY = "default";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Persisted Offsets
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getPortOffsetFile(root: string): string {
+	return join(root, ".buncargo", "port-offset.json");
+}
+
+function readOffsets(root: string): Record<string, number> {
+	const file = getPortOffsetFile(root);
+	if (!existsSync(file)) return {};
+	try {
+		return JSON.parse(readFileSync(file, "utf-8")) as Record<string, number>;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Offset saved after a collision for this worktree (and suffix), if any.
+ */
+export function readSavedPortOffset(
+	root: string,
+	suffix?: string,
+): number | undefined {
+	const offset = readOffsets(root)[suffix || DEFAULT_OFFSET_KEY];
+	return Number.isInteger(offset) ? offset : undefined;
+}
+
+export function savePortOffset(
+	root: string,
+	suffix: string | undefined,
+	offset: number,
+): void {
+	const file = getPortOffsetFile(root);
+	const offsets = readOffsets(root);
+	offsets[suffix || DEFAULT_OFFSET_KEY] = offset;
+	mkdirSync(dirname(file), { recursive: true });
+	writeFileSync(file, `${JSON.stringify(offsets, null, 2)}\n`);
+}
+
+/**
+ * Forget the saved offset of this worktree (and suffix), if any.
+ */
+export function clearSavedPortOffset(
+	root: string,
+	suffix: string | undefined,
+): void {
+	const offsets = readOffsets(root);
+	const key = suffix || DEFAULT_OFFSET_KEY;
+	if (!(key in offsets)) return;
+	delete offsets[key];
+	writeFileSync(
+		getPortOffsetFile(root),
+		`${JSON.stringify(offsets, null, 2)}\n`,
+	);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Port Probing
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Whether the host port can be published, checked by binding it briefly
+ * (unlike isPortAvailable, this also sees listeners that do not speak HTTP).
+ */
+export function isPortBindable(port: number): Promise<boolean> {
+	return new Promise((done) => {
+		const server = createServer();
+		server.once("error", () => done(false));
+		server.listen(port, () => {
+			server.close(() => done(true));
+		});
+	});
+}
+
+/**
+ * Describe what listens on a port: a Docker container (with its compose
+ * project, e.g. another buncargo worktree) or a local process. Null when
+ * neither docker nor the OS can tell.
+ */
+export async function findPortOwner(port: number): Promise<string | null> {
+	const docker = await execAsync(
+		`docker ps --filter publish=${port} --format '{{.Names}}\t{{.Label "com.docker.compose.project"}}'`,
+		process.cwd(),
+		{},
+	);
+	const container = docker.exitCode === 0 ? docker.stdout.trim() : "";
+	if (container) {
+		const [name, project] = container.split("\n")[0]?.split("\t") ?? [];
+		return project
+			? `container ${name} (compose project ${project})`
+			: `container ${name}`;
+	}
+
+	const pid = getProcessOnPort(port);
+	if (pid === null) return null;
+	const ps = await execAsync(`ps -p ${pid} -o comm=`, process.cwd(), {});
+	const command = ps.exitCode === 0 ? ps.stdout.trim() : "";
+	return command ? `${command} (pid ${pid})` : `pid ${pid}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Offset Selection
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface BlockedPort {
+	/** Service or app name (secondary ports end in "Secondary") */
+	name: string;
+	port: number;
+}
+
+/**
+ * Ports (base port + offset) that are already taken.
+ */
+export async function findBlockedPorts(
+	basePorts: Record<string, number>,
+	offset: number,
+	isAvailable: (port: number) => Promise<boolean> = isPortBindable,
+): Promise<BlockedPort[]> {
+	const blocked: BlockedPort[] = [];
+	for (const [name, basePort] of Object.entries(basePorts)) {
+		const port = basePort + offset;
+		if (!(await isAvailable(port))) blocked.push({ name, port });
+	}
+	return blocked;
+}
+
+/**
+ * Next offset after `offset` whose ports are all free, wrapping around the
+ * worktree range. The order only depends on the starting offset, so the same
+ * collisions always lead to the same choice. Null when every offset is taken.
+ */
+export async function findFreePortOffset(
+	basePorts: Record<string, number>,
+	offset: number,
+	isAvailable: (port: number) => Promise<boolean> = isPortBindable,
+): Promise<number | null> {
+	const size = MAX_PORT_OFFSET - MIN_PORT_OFFSET + 1;
+	const start = Math.max(offset + 1, MIN_PORT_OFFSET) - MIN_PORT_OFFSET;
+	for (let i = 0; i < size; i++) {
+		const candidate = MIN_PORT_OFFSET + ((start + i) % size);
+		if (candidate === offset) continue;
+		const blocked = await findBlockedPorts(basePorts, candidate, isAvailable);
+		if (blocked.length === 0) return candidate;
+	}
+	return null;
+}
+
+export interface PortOffsetChoice {
+	/** Offset to use, or null when every offset is taken */
+	offset: number | null;
+	/** Taken ports at the current offset (empty when it is kept or reset) */
+	blocked: BlockedPort[];
+}
+
+/**
+ * Offset to start with: the default offset when a saved fallback is in use
+ * and the default ports are free again, else the current offset while its
+ * ports are free, else the next free offset after it.
+ */
+export async function choosePortOffset(
+	basePorts: Record<string, number>,
+	offset: number,
+	defaultOffset: number,
+	isAvailable: (port: number) => Promise<boolean> = isPortBindable,
+): Promise<PortOffsetChoice> {
+	if (
+		offset !== defaultOffset &&
+		(await findBlockedPorts(basePorts, defaultOffset, isAvailable)).length === 0
+	) {
+		return { offset: defaultOffset, blocked: [] };
+	}
+	const blocked = await findBlockedPorts(basePorts, offset, isAvailable);
+	if (blocked.length === 0) return { offset, blocked };
+	return {
+		offset: await findFreePortOffset(basePorts, offset, isAvailable),
+		blocked,
+	};
+}
@@ -1,6 +1,11 @@
 import { existsSync, readFileSync, statSync } from "node:fs";
 import { basename, dirname, resolve } from "node:path";
+import {
+	getServiceUrlTemplate,
+	resolveServicePreset,
+} from "../docker-compose/model";
 import type { AppConfig, ServiceConfig } from "../types";
+import { readSavedPortOffset } from "./port-allocation";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Monorepo Root Detection
@@ -98,9 +103,21 @@ function simpleHash(str: string): number {
 
 /**
  * Calculate port offset based on worktree name and optional suffix.
- * Returns 0 for main branch, 10-99 for worktrees.
+ * Returns 0 for main branch, 10-99 for worktrees. An offset saved after a
+ * port collision (see ./port-allocation) takes precedence.
  */
 export function calculatePortOffset(suffix?: string, root?: string): number {
+	const savedOffset = readSavedPortOffset(root ?? findMonorepoRoot(), suffix);
+	return savedOffset ?? calculateDefaultPortOffset(suffix, root);
+}
+
+/**
+ * Port offset hashed from the worktree name, ignoring a saved offset.
+ */
+export function calculateDefaultPortOffset(
+	suffix?: string,
+	root?: string,
+): number {
 	const worktreeName = getWorktreeName(root);
 	if (!worktreeName) return 0;
 	const hashInput = suffix ? `${worktreeName}-${suffix}` : worktreeName;
@@ -221,6 +238,7 @@ const SERVICE_DEFAULTS: Record<
 	redis: { user: "", password: "", database: "" },
 	clickhouse: { user: "default", password: "clickhouse", database: "default" },
 	mysql: { user: "root", password: "root", database: "mysql" },
+	mariadb: { user: "root", password: "root", database: "mysql" },
 	mongodb: { user: "", password: "", database: "" },
 };
 
@@ -230,7 +248,12 @@ const SERVICE_DEFAULTS: Record<
 function buildServiceUrl(
 	serviceName: string,
 	ctx: { port: number; host: string },
-	config: { database?: string; user?: string; password?: string },
+	config: {
+		database?: string;
+		user?: string;
+		password?: string;
+		replicaSet?: string;
+	},
 ): string | null {
 	const defaults = SERVICE_DEFAULTS[serviceName];
 	if (!defaults && !config.database) return null;
@@ -248,11 +271,16 @@ function buildServiceUrl(
 		case "clickhouse":
 			return `http://${user}:${password}@${ctx.host}:${ctx.port}/${database}`;
 		case "mysql":
+		case "mariadb":
 			return `mysql://${user}:${password}@${ctx.host}:${ctx.port}/${database}`;
-		case "mongodb":
-			return database
+		case "mongodb": {
+			const url = database
 				? `mongodb://${ctx.host}:${ctx.port}/${database}`
 				: `mongodb://${ctx.host}:${ctx.port}`;
+			return config.replicaSet
+				? `${url}${database ? "" : "/"}?replicaSet=${config.replicaSet}&directConnection=true`
+				: url;
+		}
 		default:
 			return null;
 	}
@@ -283,18 +311,20 @@ export function computeUrls<
 
 		const ctx = { port, secondaryPort, host, localIp };
 
-		if (config.urlTemplate) {
-			// Use the provided function
-			urls[name] = config.urlTemplate(ctx);
+		const urlTemplate = getServiceUrlTemplate(name, config);
+		if (urlTemplate) {
+			// Use the service's or its preset's function
+			urls[name] = urlTemplate(ctx);
 		} else {
-			// Try to build URL using service name and config options
+			// Try to build URL using the preset (or service name) and config options
 			const builtUrl = buildServiceUrl(
-				name,
+				resolveServicePreset(name, config) ?? name,
 				{ port, host },
 				{
 					database: config.database,
 					user: config.user,
 					password: config.password,
+					replicaSet: config.replicaSet,
 				},
 			);
 			if (builtUrl) {
@@ -303,6 +333,16 @@ export function computeUrls<
 				// Fallback to simple HTTP URL
 				urls[name] = `http://${host}:${port}`;
 			}
+
+			// One URL per extra database, e.g. urls.postgres_app_test
+			for (const database of config.databases ?? []) {
+				const databaseUrl = buildServiceUrl(
+					resolveServicePreset(name, config) ?? name,
+					{ port, host },
+					{ ...config, database },
+				);
+				if (databaseUrl) urls[`${name}_${database}`] = databaseUrl;
+			}
 		}
 	}
 
@@ -0,0 +1,252 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	DEFAULT_RESTART_DELAY,
+	execAsync,
+	getRestartDelay,
+	MAX_RESTART_DELAY,
+	shouldRestart,
+	startInDependencyOrder,
+	superviseDevServers,
+} from "./process";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// execAsync Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("execAsync", () => {
+	it("resolves with output and exit code instead of throwing", async () => {
+		const result = await execAsync(
+			'echo "$GREETING"; echo oops >&2; exit 3',
+			"/tmp",
+			{ GREETING: "hello" },
+		);
+
+		expect(result).toEqual({
+			exitCode: 3,
+			stdout: "hello\n",
+			stderr: "oops\n",
+		});
+	});
+
+	it("runs commands concurrently", async () => {
+		// Each command waits for the other's marker file, so they only both
+		// succeed when they run side by side.
+		const dir = mkdtempSync(join(tmpdir(), "buncargo-exec-test-"));
+		const handshake = (own: string, other: string) =>
+			`touch ${own}; for i in $(seq 1 100); do [ -f ${other} ] && exit 0; sleep 0.05; done; exit 1`;
+
+		try {
+			const results = await Promise.all([
+				execAsync(handshake("a", "b"), dir, {}),
+				execAsync(handshake("b", "a"), dir, {}),
+			]);
+
+			expect(results.map((result) => result.exitCode)).toEqual([0, 0]);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// shouldRestart Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("shouldRestart", () => {
+	it("never restarts with the never policy", () => {
+		expect(shouldRestart("never", 1)).toBe(false);
+		expect(shouldRestart("never", null)).toBe(false);
+	});
+
+	it("restarts only failed exits with the on-failure policy", () => {
+		expect(shouldRestart("on-failure", 0)).toBe(false);
+		expect(shouldRestart("on-failure", 1)).toBe(true);
+		expect(shouldRestart("on-failure", null)).toBe(true);
+	});
+
+	it("restarts every exit with the always policy", () => {
+		expect(shouldRestart("always", 0)).toBe(true);
+		expect(shouldRestart("always", 137)).toBe(true);
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// getRestartDelay Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("getRestartDelay", () => {
+	it("doubles the delay for each consecutive attempt", () => {
+		expect(getRestartDelay(1)).toBe(DEFAULT_RESTART_DELAY);
+		expect(getRestartDelay(2)).toBe(DEFAULT_RESTART_DELAY * 2);
+		expect(getRestartDelay(3, 500)).toBe(2000);
+	});
+
+	it("caps the delay", () => {
+		expect(getRestartDelay(20)).toBe(MAX_RESTART_DELAY);
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// startInDependencyOrder Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("startInDependencyOrder", () => {
+	it("starts apps only after their service dependencies are ready", async () => {
+		const events: string[] = [];
+		const starts = startInDependencyOrder(
+			{
+				api: { port: 3000, devCommand: "bun run dev", dependsOn: ["postgres"] },
+				docs: { port: 4000, devCommand: "bun run dev" },
+			},
+			{ api: 3000, docs: 4000 },
+			async (name) => {
+				events.push(`start ${name}`);
+			},
+			{
+				waitForService: async (name) => {
+					await Promise.resolve();
+					events.push(`ready ${name}`);
+				},
+			},
+		);
+
+		await Promise.all(Object.values(starts));
+
+		expect(events).toContain("start docs");
+		expect(events.indexOf("ready postgres")).toBeLessThan(
+			events.indexOf("start api"),
+		);
+	});
+
+	it("rejects when a dependency does not become ready", async () => {
+		const started: string[] = [];
+		const starts = startInDependencyOrder(
+			{ api: { port: 3000, devCommand: "bun run dev", dependsOn: ["redis"] } },
+			{ api: 3000 },
+			async (name) => {
+				started.push(name);
+			},
+			{
+				waitForService: async () => {
+					throw new Error("timed out");
+				},
+			},
+		);
+
+		await expect(starts.api).rejects.toThrow(
+			'App "api" not started: dependency "redis" is not ready (timed out)',
+		);
+		expect(started).toEqual([]);
+	});
+
+	it("does not start apps whose dependency wait outlives a stop", async () => {
+		const started: string[] = [];
+		const controller = new AbortController();
+		const starts = startInDependencyOrder(
+			{ api: { port: 3000, devCommand: "bun run dev", dependsOn: ["redis"] } },
+			{ api: 3000 },
+			async (name) => {
+				started.push(name);
+			},
+			{
+				signal: controller.signal,
+				waitForService: async () => {
+					controller.abort();
+				},
+			},
+		);
+
+		await expect(starts.api).rejects.toThrow('App "api" not started: stopped');
+		expect(started).toEqual([]);
+	});
+
+	it("throws on circular dependencies", () => {
+		expect(() =>
+			startInDependencyOrder(
+				{
+					api: { port: 3000, devCommand: "a", dependsOn: ["web"] },
+					web: { port: 5173, devCommand: "b", dependsOn: ["api"] },
+				},
+				{ api: 3000, web: 5173 },
+				async () => {},
+			),
+		).toThrow("Circular app dependency: api -> web -> api");
+	});
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// superviseDevServers Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("superviseDevServers", () => {
+	it("restarts a crashing app until maxRestarts, then gives up", async () => {
+		const lines: string[] = [];
+		const supervisor = await superviseDevServers(
+			{
+				worker: {
+					port: 0,
+					devCommand: 'echo "run"; exit 1',
+					restart: "on-failure",
+					maxRestarts: 1,
+					restartDelay: 10,
+				},
+			},
+			"/tmp",
+			{},
+			{},
+			{ killExisting: false, onOutput: (_app, line) => lines.push(line) },
+		);
+
+		expect(await supervisor.wait()).toEqual({ worker: 1 });
+		expect(lines.filter((line) => line === "run")).toHaveLength(2);
+		expect(lines.some((line) => line.includes("attempt 1/1"))).toBe(true);
+		expect(lines.some((line) => line.includes("crash loop"))).toBe(true);
+	});
+
+	it("reports an app that cannot be spawned instead of crashing", async () => {
+		const lines: string[] = [];
+		const supervisor = await superviseDevServers(
+			{ api: { port: 0, devCommand: "echo api", cwd: "does-not-exist" } },
+			"/tmp",
+			{},
+			{},
+			{ killExisting: false, onOutput: (_app, line) => lines.push(line) },
+		);
+
+		expect(await supervisor.wait()).toEqual({ api: 1 });
+		expect(lines.some((line) => line.includes("Could not start"))).toBe(true);
+	});
+
+	it("rebuilds the app env for every restart", async () => {
+		const lines: string[] = [];
+		let starts = 0;
+		const supervisor = await superviseDevServers(
+			{
+				worker: {
+					port: 0,
+					devCommand: 'echo "url=$PUBLIC_URL"; exit 1',
+					restart: "on-failure",
+					maxRestarts: 1,
+					restartDelay: 10,
+				},
+			},
+			"/tmp",
+			{ PUBLIC_URL: "unset" },
+			{},
+			{
+				killExisting: false,
+				onOutput: (_app, line) => lines.push(line),
+				appEnvVars: () => ({ PUBLIC_URL: `https://tunnel-${++starts}` }),
+			},
+		);
+
+		await supervisor.wait();
+		expect(lines.filter((line) => line.startsWith("url="))).toEqual([
+			"url=https://tunnel-1",
+			"url=https://tunnel-2",
+		]);
+	});
+});
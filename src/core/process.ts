@@ -6,7 +6,21 @@ import {
 } from "node:child_process";
 import { platform } from "node:os";
 import { resolve } from "node:path";
-import type { AppConfig, DevServerPids, ExecOptions } from "../types";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import pc from "picocolors";
+import { redactSecrets } from "../secrets/redact";
+import type {
+	AppConfig,
+	DevServerExitCodes,
+	DevServerPids,
+	DevServerSupervisor,
+	ExecOptions,
+	RestartPolicy,
+	SuperviseServersOptions,
+} from "../types";
+import { assertAcyclic } from "./graph";
+import { waitForServer } from "./network";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Command Execution
@@ -59,7 +73,9 @@ export function exec(
 
 		if (throwOnError) {
 			throw new Error(
-				`Command failed with exit code ${result.exitCode}: ${cmd}\n${result.stderr}`,
+				redactSecrets(
+					`Command failed with exit code ${result.exitCode}: ${cmd}\n${result.stderr}`,
+				),
 			);
 		}
 
@@ -68,21 +84,39 @@ export function exec(
 }
 
 /**
- * Execute a shell command asynchronously.
+ * Execute a shell command asynchronously, so several commands can run in parallel.
+ * Never throws on a non-zero exit code; check `exitCode` instead.
  */
-export async function execAsync(
+export function execAsync(
 	cmd: string,
 	root: string,
 	envVars: Record<string, string>,
 	options: ExecOptions = {},
 ): Promise<ExecResult> {
-	// For now, wrap sync in Promise - can be optimized later with spawn
-	return new Promise((resolve) => {
-		const result = exec(cmd, root, envVars, {
-			...options,
-			throwOnError: false,
+	const { cwd, verbose = false, env = {} } = options;
+
+	return new Promise((done) => {
+		const proc = spawn(cmd, {
+			cwd: cwd ? resolve(root, cwd) : root,
+			env: { ...process.env, ...envVars, ...env },
+			shell: true,
+			stdio: verbose ? "inherit" : ["ignore", "pipe", "pipe"],
+		});
+
+		let stdout = "";
+		let stderr = "";
+		proc.stdout?.on("data", (chunk: Buffer) => {
+			stdout += chunk.toString();
+		});
+		proc.stderr?.on("data", (chunk: Buffer) => {
+			stderr += chunk.toString();
+		});
+		proc.on("error", (error) => {
+			done({ exitCode: 1, stdout, stderr: stderr || error.message });
+		});
+		proc.on("close", (code) => {
+			done({ exitCode: code ?? 1, stdout, stderr });
 		});
-		resolve(result);
 	});
 }
 
@@ -98,6 +132,12 @@ export interface SpawnDevServerOptions {
 	killExisting?: boolean;
 	/** The port this server will use (required if killExisting is true) */
 	port?: number;
+	/** stdio mode. Default: "inherit" when verbose or in CI, otherwise "ignore" */
+	stdio?: "inherit" | "ignore" | "pipe";
+	/** Run the command through a shell so quoting and operators work. Default: false */
+	shell?: boolean;
+	/** Unref detached processes so the parent can exit without them. Default: true */
+	unref?: boolean;
 }
 
 /**
@@ -117,6 +157,9 @@ export async function spawnDevServer(
 		isCI = false,
 		killExisting = true,
 		port,
+		stdio = isCI || verbose ? "inherit" : "ignore",
+		shell = false,
+		unref = true,
 	} = options;
 
 	// Kill existing process on the port if requested
@@ -130,8 +173,8 @@ export async function spawnDevServer(
 		}
 	}
 
-	// Parse command into parts
-	const parts = command.split(" ");
+	// Parse command into parts (the shell parses it when shell is enabled)
+	const parts = shell ? [command.trim()] : command.split(" ");
 	const cmd = parts[0];
 	const args = parts.slice(1);
 
@@ -145,28 +188,132 @@ export async function spawnDevServer(
 		cwd: workingDir,
 		env: { ...process.env, ...envVars },
 		detached,
-		stdio: isCI || verbose ? "inherit" : "ignore",
+		stdio,
+		shell,
 	};
 
 	const proc = spawn(cmd, args, spawnOptions);
 
-	if (detached && proc.unref) {
+	if (detached && unref && proc.unref) {
 		proc.unref();
 	}
 
 	return proc;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Startup Ordering
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** How long to wait for an app dependency without a healthTimeout */
+const DEFAULT_DEPENDENCY_TIMEOUT = 60000;
+
+export interface DependencyOrderOptions {
+	/** Wait for a service dependency to become healthy. Default: services count as ready */
+	waitForService?: (serviceName: string, signal?: AbortSignal) => Promise<void>;
+	/** Called when an app has to wait for its dependencies before starting */
+	onWaiting?: (appName: string, dependencies: string[]) => void;
+	/** Cancels pending dependency waits; apps not started yet are not started */
+	signal?: AbortSignal;
+}
+
+/**
+ * Start apps so each one starts only after everything in its dependsOn is ready.
+ * Apps without dependencies start right away. An app dependency is ready once
+ * its healthEndpoint responds. Returns a promise per app that settles once the
+ * app has started, or rejects if it could not start.
+ */
+export function startInDependencyOrder(
+	apps: Record<string, AppConfig>,
+	ports: Record<string, number>,
+	startApp: (name: string, config: AppConfig) => Promise<void>,
+	options: DependencyOrderOptions = {},
+): Record<string, Promise<void>> {
+	const { waitForService, onWaiting, signal } = options;
+
+	assertAcyclic(
+		Object.fromEntries(
+			Object.entries(apps).map(([name, config]) => [
+				name,
+				config.dependsOn ?? [],
+			]),
+		),
+		"app",
+	);
+
+	const started = new Map<string, Promise<void>>();
+	const ready = new Map<string, Promise<void>>();
+
+	function waitForDependency(name: string): Promise<void> {
+		let promise = ready.get(name);
+		if (!promise) {
+			const app = apps[name];
+			promise = app
+				? launch(name, app).then(() =>
+						waitForServer(
+							`http://localhost:${ports[name]}${app.healthEndpoint ?? "/"}`,
+							{
+								timeout: app.healthTimeout ?? DEFAULT_DEPENDENCY_TIMEOUT,
+								signal,
+							},
+						),
+					)
+				: (waitForService?.(name, signal) ?? Promise.resolve());
+			ready.set(name, promise);
+		}
+		return promise;
+	}
+
+	function launch(name: string, config: AppConfig): Promise<void> {
+		let promise = started.get(name);
+		if (!promise) {
+			const dependencies = config.dependsOn ?? [];
+			if (dependencies.length > 0) onWaiting?.(name, dependencies);
+			promise = Promise.all(
+				dependencies.map((dependency) =>
+					waitForDependency(dependency).catch((error: Error) => {
+						throw new Error(
+							`App "${name}" not started: dependency "${dependency}" is not ready (${error.message})`,
+						);
+					}),
+				),
+			).then(() => {
+				// Stopped while waiting: the app must not spawn after shutdown
+				if (signal?.aborted) {
+					throw new Error(`App "${name}" not started: stopped`);
+				}
+				return startApp(name, config);
+			});
+			started.set(name, promise);
+		}
+		return promise;
+	}
+
+	return Object.fromEntries(
+		Object.entries(apps).map(([name, config]) => [name, launch(name, config)]),
+	);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Dev Server Startup
+// ═══════════════════════════════════════════════════════════════════════════
+
 export interface StartDevServersOptions {
 	verbose?: boolean;
 	productionBuild?: boolean;
 	isCI?: boolean;
 	/** Kill any existing process using the port before starting. Default: true */
 	killExisting?: boolean;
+	/** Wait for a service listed in an app's dependsOn to become healthy */
+	waitForService?: (serviceName: string, signal?: AbortSignal) => Promise<void>;
+	/** Env vars per app name, merged over envVars for that app only */
+	appEnvVars?: Record<string, Record<string, string>>;
+	/** Cancels waiting on dependencies (apps not started yet stay stopped) */
+	signal?: AbortSignal;
 }
 
 /**
- * Start all configured dev servers.
+ * Start all configured dev servers, each one after the apps and services it dependsOn are ready.
  * If killExisting is true (default), any process already using a port will be killed first.
  */
 export async function startDevServers(
@@ -181,6 +328,9 @@ export async function startDevServers(
 		productionBuild = false,
 		isCI = false,
 		killExisting = true,
+		waitForService,
+		appEnvVars = {},
+		signal,
 	} = options;
 	const pids: DevServerPids = {};
 
@@ -192,81 +342,466 @@ export async function startDevServers(
 		);
 	}
 
-	for (const [name, config] of Object.entries(apps)) {
+	const starts = startInDependencyOrder(
+		apps,
+		ports,
+		async (name, config) => {
+			const command = productionBuild
+				? (config.prodCommand ?? config.devCommand)
+				: config.devCommand;
+
+			const proc = await spawnDevServer(
+				command,
+				root,
+				config.cwd,
+				{ ...envVars, ...appEnvVars[name] },
+				{
+					verbose,
+					isCI,
+					killExisting,
+					port: ports[name],
+				},
+			);
+
+			if (proc.pid) {
+				pids[name] = proc.pid;
+				if (verbose) {
+					console.log(`   ${name} PID: ${proc.pid}`);
+				}
+			}
+		},
+		{
+			waitForService,
+			signal,
+			onWaiting: verbose
+				? (name, dependencies) =>
+						console.log(`   ${name} waiting for ${dependencies.join(", ")}...`)
+				: undefined,
+		},
+	);
+	await Promise.all(Object.values(starts));
+
+	return pids;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Dev Server Supervisor
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Colors cycled through for per-name output prefixes */
+export const PREFIX_COLORS = [
+	pc.blue,
+	pc.green,
+	pc.yellow,
+	pc.magenta,
+	pc.cyan,
+	pc.red,
+];
+
+/** Default number of consecutive restarts before an app is considered crash-looping */
+export const DEFAULT_MAX_RESTARTS = 5;
+/** Default delay before the first restart, doubled for each consecutive crash */
+export const DEFAULT_RESTART_DELAY = 1000;
+/** Upper bound for the exponential restart backoff */
+export const MAX_RESTART_DELAY = 30_000;
+/** A run lasting at least this long resets the consecutive restart counter */
+export const RESTART_RESET_AFTER = 30_000;
+
+/**
+ * Decide whether an exited app should be restarted under its restart policy.
+ * Exits caused by a signal (code null) count as failures.
+ */
+export function shouldRestart(
+	policy: RestartPolicy,
+	exitCode: number | null,
+): boolean {
+	switch (policy) {
+		case "always":
+			return true;
+		case "on-failure":
+			return exitCode !== 0;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Exponential backoff for the given restart attempt (1-based).
+ */
+export function getRestartDelay(
+	attempt: number,
+	baseDelay = DEFAULT_RESTART_DELAY,
+): number {
+	return Math.min(baseDelay * 2 ** Math.max(0, attempt - 1), MAX_RESTART_DELAY);
+}
+
+function forEachLine(
+	stream: Readable | null,
+	onLine: (line: string) => void,
+): void {
+	if (!stream) return;
+	createInterface({ input: stream }).on("line", onLine);
+}
+
+/**
+ * Run every app as its own child process under a supervisor.
+ * Output is prefixed per app, exit codes are tracked per app and
+ * stop() kills each app's whole process tree.
+ */
+export async function superviseDevServers(
+	apps: Record<string, AppConfig>,
+	root: string,
+	envVars: Record<string, string>,
+	ports: Record<string, number>,
+	options: SuperviseServersOptions = {},
+): Promise<DevServerSupervisor> {
+	const {
+		productionBuild = false,
+		killExisting = true,
+		killTimeout = 5000,
+		onOutput,
+		waitForService,
+		appEnvVars = {},
+	} = options;
+	const names = Object.keys(apps);
+	const prefixWidth = Math.max(0, ...names.map((name) => name.length));
+	const running = new Map<string, ChildProcess>();
+	const exitCodes: DevServerExitCodes = {};
+	const restartAttempts = new Map<string, number>();
+	const pendingRestarts = new Map<string, ReturnType<typeof setTimeout>>();
+	const starting = new Set(names);
+	const restarting = new Set<string>();
+	const startTimes = new Map<string, number>();
+	const aborter = new AbortController();
+	let stopping = false;
+
+	let resolveDone: (codes: DevServerExitCodes) => void = () => {};
+	const done = new Promise<DevServerExitCodes>((resolve) => {
+		resolveDone = resolve;
+	});
+
+	function write(
+		name: string,
+		line: string,
+		stream: "stdout" | "stderr",
+	): void {
+		const text = redactSecrets(line);
+		if (onOutput) {
+			onOutput(name, text, stream);
+			return;
+		}
+		const color =
+			PREFIX_COLORS[names.indexOf(name) % PREFIX_COLORS.length] ?? pc.white;
+		const output = stream === "stderr" ? process.stderr : process.stdout;
+		output.write(`${color(`[${name.padEnd(prefixWidth)}]`)} ${text}\n`);
+	}
+
+	function settleIfIdle(): void {
+		// Apps still waiting on dependencies are abandoned once stopping
+		if (
+			running.size === 0 &&
+			pendingRestarts.size === 0 &&
+			restarting.size === 0 &&
+			(stopping || starting.size === 0)
+		) {
+			resolveDone(exitCodes);
+		}
+	}
+
+	function handleExit(
+		name: string,
+		config: AppConfig,
+		code: number | null,
+		signal: NodeJS.Signals | null,
+		uptime: number,
+	): void {
+		exitCodes[name] = code;
+		if (stopping || restarting.has(name)) return;
+
+		write(
+			name,
+			code === 0
+				? pc.dim("exited with code 0")
+				: pc.red(`exited with ${code !== null ? `code ${code}` : signal}`),
+			"stderr",
+		);
+
+		const policy = config.restart ?? "never";
+		if (!shouldRestart(policy, code)) return;
+
+		// A run that stayed up long enough is not part of a crash loop
+		const attempt =
+			uptime >= RESTART_RESET_AFTER ? 1 : (restartAttempts.get(name) ?? 0) + 1;
+		const maxRestarts = config.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+		if (attempt > maxRestarts) {
+			write(
+				name,
+				pc.red(
+					`crash loop: exited ${attempt} times in a row within ${RESTART_RESET_AFTER / 1000}s each, giving up (restart: "${policy}", maxRestarts: ${maxRestarts})`,
+				),
+				"stderr",
+			);
+			return;
+		}
+
+		restartAttempts.set(name, attempt);
+		const delay = getRestartDelay(attempt, config.restartDelay);
+		write(
+			name,
+			pc.yellow(`restarting in ${delay}ms (attempt ${attempt}/${maxRestarts})`),
+			"stderr",
+		);
+		pendingRestarts.set(
+			name,
+			setTimeout(() => {
+				pendingRestarts.delete(name);
+				if (stopping) {
+					settleIfIdle();
+					return;
+				}
+				startApp(name, config).catch((error: Error) => {
+					exitCodes[name] = 1;
+					write(name, pc.red(`restart failed: ${error.message}`), "stderr");
+					settleIfIdle();
+				});
+			}, delay),
+		);
+	}
+
+	async function startApp(name: string, config: AppConfig): Promise<void> {
 		const command = productionBuild
 			? (config.prodCommand ?? config.devCommand)
 			: config.devCommand;
 
-		const port = ports[name];
-
-		const proc = await spawnDevServer(command, root, config.cwd, envVars, {
-			verbose,
-			isCI,
+		const appEnv = {
+			...envVars,
+			...(typeof appEnvVars === "function"
+				? appEnvVars(name)
+				: appEnvVars[name]),
+		};
+		const proc = await spawnDevServer(command, root, config.cwd, appEnv, {
+			verbose: true,
 			killExisting,
-			port,
+			port: ports[name],
+			stdio: "pipe",
+			shell: true,
+			unref: false,
 		});
+		const startedAt = Date.now();
+		running.set(name, proc);
+		startTimes.set(name, startedAt);
 
-		if (proc.pid) {
-			pids[name] = proc.pid;
-			if (verbose) {
-				console.log(`   ${name} PID: ${proc.pid}`);
+		forEachLine(proc.stdout, (line) => write(name, line, "stdout"));
+		forEachLine(proc.stderr, (line) => write(name, line, "stderr"));
+
+		proc.on("exit", (code, signal) => {
+			if (running.get(name) === proc) {
+				running.delete(name);
+				startTimes.delete(name);
+			}
+			handleExit(name, config, code, signal, Date.now() - startedAt);
+			settleIfIdle();
+		});
+		// Spawn failures (e.g. a missing cwd) emit "error" and no "exit"
+		proc.on("error", (error) => {
+			write(name, pc.red(`Could not start: ${error.message}`), "stderr");
+			exitCodes[name] = 1;
+			if (running.get(name) === proc) {
+				running.delete(name);
+				startTimes.delete(name);
+			}
+			settleIfIdle();
+		});
+	}
+
+	const starts = startInDependencyOrder(
+		apps,
+		ports,
+		async (name, config) => {
+			if (!stopping) await startApp(name, config);
+		},
+		{
+			waitForService,
+			signal: aborter.signal,
+			onWaiting: (name, dependencies) =>
+				write(
+					name,
+					pc.dim(`waiting for ${dependencies.join(", ")}...`),
+					"stdout",
+				),
+		},
+	);
+	for (const [name, promise] of Object.entries(starts)) {
+		promise
+			.catch((error: Error) => {
+				if (stopping) return;
+				exitCodes[name] = 1;
+				write(name, pc.red(error.message), "stderr");
+			})
+			.finally(() => {
+				starting.delete(name);
+				settleIfIdle();
+			});
+	}
+
+	settleIfIdle();
+
+	/** SIGTERM a single app's process tree, SIGKILL it after killTimeout */
+	function terminate(proc: ChildProcess): Promise<void> {
+		return new Promise((resolve) => {
+			if (proc.exitCode !== null || proc.signalCode !== null) {
+				resolve();
+				return;
+			}
+			const timeoutId = setTimeout(() => {
+				if (proc.pid) killProcessTree(proc.pid, "SIGKILL");
+			}, killTimeout);
+			proc.once("exit", () => {
+				clearTimeout(timeoutId);
+				resolve();
+			});
+			if (proc.pid) killProcessTree(proc.pid, "SIGTERM");
+		});
+	}
+
+	async function restart(name: string): Promise<void> {
+		const config = apps[name];
+		if (!config) {
+			throw new Error(`Unknown app "${name}"`);
+		}
+		if (stopping || restarting.has(name)) return;
+		if (starting.has(name)) {
+			write(name, pc.dim("still waiting for dependencies"), "stderr");
+			return;
+		}
+
+		const timer = pendingRestarts.get(name);
+		if (timer) {
+			clearTimeout(timer);
+			pendingRestarts.delete(name);
+		}
+		restartAttempts.delete(name);
+		restarting.add(name);
+		try {
+			const proc = running.get(name);
+			if (proc) await terminate(proc);
+			if (!stopping) {
+				write(name, pc.yellow("restarting..."), "stderr");
+				await startApp(name, config);
 			}
+		} finally {
+			restarting.delete(name);
+			settleIfIdle();
 		}
 	}
 
-	return pids;
+	async function stop(): Promise<void> {
+		stopping = true;
+		aborter.abort();
+		for (const timer of pendingRestarts.values()) {
+			clearTimeout(timer);
+		}
+		pendingRestarts.clear();
+		for (const proc of running.values()) {
+			if (proc.pid) killProcessTree(proc.pid, "SIGTERM");
+		}
+		settleIfIdle();
+
+		let timeoutId: ReturnType<typeof setTimeout> | undefined;
+		const timedOut = await Promise.race([
+			done.then(() => false),
+			new Promise<boolean>((resolve) => {
+				timeoutId = setTimeout(() => resolve(true), killTimeout);
+			}),
+		]);
+		clearTimeout(timeoutId);
+
+		if (timedOut) {
+			for (const proc of running.values()) {
+				if (proc.pid) killProcessTree(proc.pid, "SIGKILL");
+			}
+		}
+		await done;
+	}
+
+	return {
+		get pids(): DevServerPids {
+			const pids: DevServerPids = {};
+			for (const [name, proc] of running) {
+				if (proc.pid) pids[name] = proc.pid;
+			}
+			return pids;
+		},
+		get startTimes(): Record<string, number> {
+			return Object.fromEntries(startTimes);
+		},
+		wait: () => done,
+		restart,
+		stop,
+	};
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Port Process Management
 // ═══════════════════════════════════════════════════════════════════════════
 
+/** Command listing the process listening on a port */
+function getPortOwnerCommand(port: number): string {
+	return platform() === "win32"
+		? `netstat -ano | findstr :${port}`
+		: `lsof -ti :${port}`;
+}
+
+/** First PID in the output of getPortOwnerCommand */
+function parsePortOwner(output: string): number | null {
+	const lines = output.trim().split("\n");
+	if (platform() === "win32") {
+		// Parse Windows netstat output: TCP 0.0.0.0:3000 0.0.0.0:0 LISTENING 12345
+		for (const line of lines) {
+			// Only match LISTENING state
+			if (line.includes("LISTENING")) {
+				const parts = line.trim().split(/\s+/);
+				const pid = Number.parseInt(parts[parts.length - 1], 10);
+				if (!Number.isNaN(pid) && pid > 0) {
+					return pid;
+				}
+			}
+		}
+		return null;
+	}
+	const pid = Number.parseInt(lines[0], 10);
+	return !Number.isNaN(pid) && pid > 0 ? pid : null;
+}
+
 /**
  * Get the PID of the process using a specific port.
  * Returns null if no process is using the port.
  */
 export function getProcessOnPort(port: number): number | null {
 	try {
-		const os = platform();
-		let output: string;
-
-		if (os === "win32") {
-			// Windows: use netstat
-			output = execSync(`netstat -ano | findstr :${port}`, {
+		return parsePortOwner(
+			execSync(getPortOwnerCommand(port), {
 				encoding: "utf-8",
 				stdio: ["pipe", "pipe", "pipe"],
-			});
-			// Parse Windows netstat output: TCP 0.0.0.0:3000 0.0.0.0:0 LISTENING 12345
-			const lines = output.trim().split("\n");
-			for (const line of lines) {
-				// Only match LISTENING state
-				if (line.includes("LISTENING")) {
-					const parts = line.trim().split(/\s+/);
-					const pid = Number.parseInt(parts[parts.length - 1], 10);
-					if (!Number.isNaN(pid) && pid > 0) {
-						return pid;
-					}
-				}
-			}
-		} else {
-			// macOS/Linux: use lsof
-			output = execSync(`lsof -ti :${port}`, {
-				encoding: "utf-8",
-				stdio: ["pipe", "pipe", "pipe"],
-			});
-			const pid = Number.parseInt(output.trim().split("\n")[0], 10);
-			if (!Number.isNaN(pid) && pid > 0) {
-				return pid;
-			}
-		}
-
-		return null;
+			}),
+		);
 	} catch {
 		// No process found on port (command exits with error)
 		return null;
 	}
 }
 
+/**
+ * Async variant of getProcessOnPort that does not block the event loop
+ * (for periodic probes such as the dashboard status).
+ */
+export async function getProcessOnPortAsync(
+	port: number,
+): Promise<number | null> {
+	const result = await execAsync(getPortOwnerCommand(port), process.cwd(), {});
+	return result.exitCode === 0 ? parsePortOwner(result.stdout) : null;
+}
+
 /**
  * Check if a port is currently in use.
  */
@@ -424,6 +959,26 @@ export function stopProcess(pid: number): void {
 	}
 }
 
+/**
+ * Kill a process and all of its descendants.
+ * On Unix this signals the process group, so the process must have been
+ * spawned with `detached: true` (making it the group leader).
+ */
+export function killProcessTree(
+	pid: number,
+	signal: NodeJS.Signals = "SIGTERM",
+): void {
+	try {
+		if (platform() === "win32") {
+			execSync(`taskkill /pid ${pid} /T /F`, { stdio: "ignore" });
+		} else {
+			process.kill(-pid, signal);
+		}
+	} catch {
+		// Process tree may already be gone
+	}
+}
+
 /**
  * Stop all processes by their PIDs.
  */
@@ -464,18 +1019,26 @@ export function buildApps(
 	apps: Record<string, AppConfig>,
 	root: string,
 	envVars: Record<string, string>,
-	options: { verbose?: boolean } = {},
+	options: {
+		verbose?: boolean;
+		appEnvVars?: Record<string, Record<string, string>>;
+	} = {},
 ): void {
-	const { verbose = true } = options;
+	const { verbose = true, appEnvVars = {} } = options;
 
 	for (const [name, config] of Object.entries(apps)) {
 		if (config.buildCommand) {
 			if (verbose) console.log(`🔨 Building ${name}...`);
 
-			exec(config.buildCommand, root, envVars, {
-				cwd: config.cwd,
-				verbose,
-			});
+			exec(
+				config.buildCommand,
+				root,
+				{ ...envVars, ...appEnvVars[name] },
+				{
+					cwd: config.cwd,
+					verbose,
+				},
+			);
 		}
 	}
 
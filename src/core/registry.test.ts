@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import {
+	existsSync,
+	mkdirSync,
+	rmSync,
+	utimesSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	getClaimedPorts,
+	getRegistryFile,
+	pruneRegistry,
+	type RegistryEntry,
+	readRegistry,
+	registerProject,
+} from "./registry";
+
+function entry(overrides: Partial<RegistryEntry> = {}): RegistryEntry {
+	return {
+		projectName: "myapp",
+		root: tmpdir(),
+		worktree: false,
+		portOffset: 0,
+		ports: { postgres: 5432, api: 3000 },
+		updatedAt: "2026-01-01T00:00:00.000Z",
+		...overrides,
+	};
+}
+
+describe("project registry", () => {
+	const home = join(tmpdir(), `buncargo-registry-test-${Date.now()}`);
+	const previousHome = process.env.BUNCARGO_HOME;
+
+	beforeEach(() => {
+		process.env.BUNCARGO_HOME = home;
+	});
+
+	afterEach(() => {
+		if (previousHome === undefined) delete process.env.BUNCARGO_HOME;
+		else process.env.BUNCARGO_HOME = previousHome;
+		rmSync(home, { recursive: true, force: true });
+	});
+
+	it("stores the registry under BUNCARGO_HOME", async () => {
+		await registerProject(entry());
+
+		expect(getRegistryFile()).toBe(join(home, "registry.json"));
+		expect(readRegistry()).toEqual([entry()]);
+		expect(existsSync(`${getRegistryFile()}.lock`)).toBe(false);
+	});
+
+	it("replaces the entry of the same project and root", async () => {
+		await registerProject(entry());
+		await registerProject(entry({ projectName: "myapp-feature" }));
+		await registerProject(entry({ portOffset: 12 }));
+
+		expect(readRegistry().map((e) => [e.projectName, e.portOffset])).toEqual([
+			["myapp-feature", 0],
+			["myapp", 12],
+		]);
+	});
+
+	it("keeps concurrent writers from losing entries", async () => {
+		await Promise.all(
+			Array.from({ length: 5 }, (_, i) =>
+				registerProject(entry({ projectName: `myapp-${i}` })),
+			),
+		);
+
+		expect(readRegistry()).toHaveLength(5);
+	});
+
+	it("prunes projects whose worktree was removed", async () => {
+		const worktree = join(home, "worktree");
+		mkdirSync(worktree, { recursive: true });
+		await registerProject(entry());
+		await registerProject(entry({ projectName: "gone", root: worktree }));
+		rmSync(worktree, { recursive: true });
+
+		expect((await pruneRegistry()).map((e) => e.projectName)).toEqual([
+			"myapp",
+		]);
+		expect(readRegistry()).toHaveLength(1);
+	});
+
+	it("returns ports claimed by other projects only", async () => {
+		await registerProject(entry());
+		await registerProject(
+			entry({ projectName: "other", ports: { postgres: 5442 } }),
+		);
+
+		expect([...(await getClaimedPorts("myapp", tmpdir()))]).toEqual([5442]);
+	});
+
+	it("does not count ports of stopped projects as claimed", async () => {
+		await registerProject(
+			entry({
+				projectName: "stopped",
+				ports: { postgres: 5442 },
+				running: false,
+			}),
+		);
+		await registerProject(
+			entry({
+				projectName: "running",
+				ports: { postgres: 5452 },
+				running: true,
+			}),
+		);
+
+		expect([...(await getClaimedPorts("myapp", tmpdir()))]).toEqual([5452]);
+	});
+
+	it("does not count ports of projects whose containers are gone", async () => {
+		await registerProject(
+			entry({ projectName: "torn-down", ports: { postgres: 5442 } }),
+		);
+		await registerProject(
+			entry({ projectName: "up", ports: { postgres: 5452 } }),
+		);
+
+		const claimed = await getClaimedPorts(
+			"myapp",
+			tmpdir(),
+			async (name) => name === "up",
+		);
+		expect([...claimed]).toEqual([5452]);
+	});
+
+	it("breaks a lock left behind by a crashed process", async () => {
+		const lockFile = `${getRegistryFile()}.lock`;
+		mkdirSync(home, { recursive: true });
+		writeFileSync(lockFile, "");
+		const longAgo = new Date(Date.now() - 60_000);
+		utimesSync(lockFile, longAgo, longAgo);
+
+		await registerProject(entry());
+
+		expect(readRegistry()).toEqual([entry()]);
+		expect(existsSync(lockFile)).toBe(false);
+		expect(existsSync(`${lockFile}.${process.pid}.stale`)).toBe(false);
+	});
+});
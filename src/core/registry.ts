@@ -0,0 +1,209 @@
+/**
+ * Machine-wide registry of buncargo projects.
+ *
+ * Every environment records its project name, worktree path, port offset and
+ * ports when it starts (and that it stopped), so `buncargo ls` can list all
+ * projects on the machine and port offsets can avoid ports claimed by other
+ * running projects:
+ *
+ *   ~/.buncargo/registry.json   (or $BUNCARGO_HOME/registry.json)
+ *
+ * Writers hold `registry.json.lock`, created exclusively, while they
+ * read-modify-write the file. A stale lock is renamed away before it is
+ * removed, so a lock another process just took is never deleted.
+ */
+
+import {
+	closeSync,
+	existsSync,
+	linkSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	renameSync,
+	statSync,
+	unlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { sleep } from "./utils";
+
+const LOCK_RETRY_INTERVAL = 25;
+const LOCK_TIMEOUT = 5000;
+/** A lock older than this was left behind by a crashed process */
+const STALE_LOCK_AGE = 10_000;
+
+export interface RegistryEntry {
+	projectName: string;
+	/** Monorepo root of the worktree */
+	root: string;
+	worktree: boolean;
+	portOffset: number;
+	/** Host ports with the offset applied */
+	ports: Record<string, number>;
+	/** False once the environment was stopped (absent in older registries) */
+	running?: boolean;
+	/** ISO timestamp of the last start or stop */
+	updatedAt: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// File Paths
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Directory for machine-wide buncargo state (`$BUNCARGO_HOME` or ~/.buncargo).
+ */
+export function getBuncargoHome(): string {
+	return process.env.BUNCARGO_HOME || join(homedir(), ".buncargo");
+}
+
+export function getRegistryFile(): string {
+	return join(getBuncargoHome(), "registry.json");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Locking
+// ═══════════════════════════════════════════════════════════════════════════
+
+function isStaleLock(lockFile: string): boolean {
+	try {
+		return Date.now() - statSync(lockFile).mtimeMs > STALE_LOCK_AGE;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Remove a stale lock. Renaming it first means only one process takes it, and
+ * the age is checked again on the renamed file: if another process broke the
+ * stale lock and took a fresh one in between, that lock is put back.
+ */
+function breakStaleLock(lockFile: string): void {
+	const takenFile = `${lockFile}.${process.pid}.stale`;
+	try {
+		renameSync(lockFile, takenFile);
+	} catch {
+		return;
+	}
+	if (!isStaleLock(takenFile)) {
+		try {
+			linkSync(takenFile, lockFile);
+		} catch {
+			// Yet another process holds the lock now
+		}
+	}
+	unlinkSync(takenFile);
+}
+
+async function withRegistryLock<T>(fn: () => T): Promise<T> {
+	const lockFile = `${getRegistryFile()}.lock`;
+	mkdirSync(getBuncargoHome(), { recursive: true });
+
+	const deadline = Date.now() + LOCK_TIMEOUT;
+	while (true) {
+		try {
+			closeSync(openSync(lockFile, "wx"));
+			break;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+			if (isStaleLock(lockFile)) {
+				breakStaleLock(lockFile);
+				continue;
+			}
+			if (Date.now() >= deadline) {
+				throw new Error(`Timed out waiting for registry lock ${lockFile}`);
+			}
+			await sleep(LOCK_RETRY_INTERVAL);
+		}
+	}
+
+	try {
+		return fn();
+	} finally {
+		try {
+			unlinkSync(lockFile);
+		} catch {
+			// Removed as stale by another process
+		}
+	}
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Registry Access
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Read all registered projects (empty when the registry does not exist).
+ */
+export function readRegistry(): RegistryEntry[] {
+	const file = getRegistryFile();
+	if (!existsSync(file)) return [];
+	try {
+		const data = JSON.parse(readFileSync(file, "utf-8")) as {
+			projects?: RegistryEntry[];
+		};
+		return Array.isArray(data.projects) ? data.projects : [];
+	} catch {
+		return [];
+	}
+}
+
+function writeRegistry(entries: RegistryEntry[]): void {
+	const file = getRegistryFile();
+	const tempFile = `${file}.${process.pid}.tmp`;
+	writeFileSync(
+		tempFile,
+		`${JSON.stringify({ projects: entries }, null, 2)}\n`,
+	);
+	renameSync(tempFile, file);
+}
+
+function isSameProject(a: RegistryEntry, b: RegistryEntry): boolean {
+	return a.projectName === b.projectName && a.root === b.root;
+}
+
+/**
+ * Add or replace the entry for a project (same project name and root).
+ */
+export function registerProject(entry: RegistryEntry): Promise<void> {
+	return withRegistryLock(() => {
+		const others = readRegistry().filter(
+			(existing) => !isSameProject(existing, entry),
+		);
+		writeRegistry([...others, entry]);
+	});
+}
+
+/**
+ * Drop projects whose worktree no longer exists and return the rest.
+ */
+export function pruneRegistry(): Promise<RegistryEntry[]> {
+	return withRegistryLock(() => {
+		const entries = readRegistry();
+		const existing = entries.filter((entry) => existsSync(entry.root));
+		if (existing.length !== entries.length) writeRegistry(existing);
+		return existing;
+	});
+}
+
+/**
+ * Host ports registered by every project except the given one and the ones
+ * that were stopped. `hasContainers` checks the entries still marked running:
+ * a watchdog teardown or a crashed session never clears the flag.
+ */
+export async function getClaimedPorts(
+	projectName: string,
+	root: string,
+	hasContainers: (projectName: string) => Promise<boolean> = async () => true,
+): Promise<Set<number>> {
+	const claimed = new Set<number>();
+	for (const entry of readRegistry()) {
+		if (entry.projectName === projectName && entry.root === root) continue;
+		if (entry.running === false) continue;
+		if (!(await hasContainers(entry.projectName))) continue;
+		for (const port of Object.values(entry.ports)) claimed.add(port);
+	}
+	return claimed;
+}
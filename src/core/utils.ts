@@ -1,3 +1,4 @@
+import { createUnresolvedSecrets } from "../secrets/resolve";
 import type { AppConfig, DevConfig, ServiceConfig } from "../types";
 import { getLocalIp } from "./network";
 import { calculatePortOffset, computePorts, computeUrls } from "./ports";
@@ -94,6 +95,8 @@ export function getEnvVar<
 			localIp,
 			portOffset: offset,
 			publicUrls: {},
+			// Secrets resolve asynchronously, so they are not available here
+			secrets: createUnresolvedSecrets(Object.keys(config.secrets ?? {})),
 		},
 	);
 
@@ -1,4 +1,4 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, describe, expect, it } from "bun:test";
 import {
 	existsSync,
 	mkdirSync,
@@ -8,13 +8,23 @@ import {
 } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { validateConfig } from "../config";
+import { computeUrls } from "../core/ports";
 import type { ServiceConfig } from "../types";
 import {
 	buildComposeModel,
 	composeToYaml,
+	defineDockerService,
+	getDefaultPortBindings,
+	getServiceEnvVars,
+	getServiceProvisionCommand,
+	getServiceShellCommand,
+	getServiceSnapshotCommands,
+	registerServicePreset,
+	unregisterServicePreset,
 	writeGeneratedComposeFile,
 } from "./index";
-import { service } from "./services";
+import { inferDockerPreset, service } from "./services";
 
 describe("buildComposeModel", () => {
 	it("builds built-in postgres/redis/clickhouse services", () => {
@@ -56,6 +66,139 @@ describe("buildComposeModel", () => {
 		});
 	});
 
+	it("builds mysql and mariadb services", () => {
+		const compose = buildComposeModel({
+			mysql: service.mysql({ database: "legacy", user: "app", password: "pw" }),
+			billing: service.mariadb({ port: 3307 }),
+		});
+
+		expect(compose.services.mysql?.image).toBe("mysql:8.4");
+		expect(compose.services.mysql?.environment).toEqual({
+			MYSQL_ROOT_PASSWORD: "pw",
+			MYSQL_DATABASE: "legacy",
+			MYSQL_USER: "app",
+			MYSQL_PASSWORD: "pw",
+		});
+		expect(compose.services.billing?.image).toBe("mariadb:11");
+		expect(compose.services.billing?.environment).toEqual({
+			MARIADB_ROOT_PASSWORD: "root",
+		});
+		expect(compose.services.billing?.ports).toEqual([
+			"$" + "{BILLING_PORT:-3307}:3306",
+		]);
+		expect(compose.services.billing?.healthcheck?.test).toEqual([
+			"CMD-SHELL",
+			"mariadb-admin ping -h 127.0.0.1 --silent 2>/dev/null || mysqladmin ping -h 127.0.0.1 --silent",
+		]);
+		expect(compose.volumes).toEqual({ mysql_data: {}, billing_data: {} });
+	});
+
+	it("builds a mongodb replica set that initiates itself", () => {
+		const compose = buildComposeModel({
+			mongo: service.mongodb({ replicaSet: true, healthCheck: false }),
+			plain: service.mongodb({ port: 27018 }),
+		});
+
+		expect(compose.services.mongo?.image).toBe("mongo:7");
+		expect(compose.services.mongo?.command).toEqual([
+			"--replSet",
+			"rs0",
+			"--bind_ip_all",
+		]);
+		expect(compose.services.mongo?.healthcheck?.test).toEqual([
+			"CMD",
+			"mongosh",
+			"--quiet",
+			"--eval",
+			"try { rs.status() } catch (e) { rs.initiate({ _id: 'rs0', members: [{ _id: 0, host: 'localhost:27017' }] }) } quit(db.hello().isWritablePrimary ? 0 : 1)",
+		]);
+		expect(compose.services.plain?.command).toBeUndefined();
+		expect(compose.services.plain?.ports).toEqual([
+			"$" + "{PLAIN_PORT:-27018}:27017",
+		]);
+		expect(compose.volumes).toEqual({ mongo_data: {}, plain_data: {} });
+	});
+
+	it("builds a minio service with console port", () => {
+		const compose = buildComposeModel({ storage: service.s3() });
+
+		expect(compose.services.storage?.image).toBe("minio/minio:latest");
+		expect(compose.services.storage?.command).toEqual([
+			"server",
+			"/data",
+			"--console-address",
+			":9001",
+		]);
+		expect(compose.services.storage?.ports).toEqual([
+			"$" + "{STORAGE_PORT:-9000}:9000",
+			"$" + "{STORAGESECONDARY_PORT:-9001}:9001",
+		]);
+		expect(compose.services.storage?.healthcheck?.test).toEqual([
+			"CMD",
+			"mc",
+			"ready",
+			"local",
+		]);
+	});
+
+	it("builds a redpanda broker advertising the offset host port", () => {
+		const compose = buildComposeModel({ kafka: service.kafka() });
+
+		expect(compose.services.kafka?.command).toContain(
+			"internal://kafka:29092,external://localhost:$" + "{KAFKA_PORT:-9092}",
+		);
+		expect(compose.services.kafka?.ports).toEqual([
+			"$" + "{KAFKA_PORT:-9092}:9092",
+			"$" + "{KAFKASECONDARY_PORT:-9644}:9644",
+		]);
+		expect(compose.volumes).toEqual({ kafka_data: {} });
+	});
+
+	it("advertises the internal kafka listener under the compose service name", () => {
+		const compose = buildComposeModel({
+			kafka: service.kafka({ serviceName: "broker" }),
+		});
+
+		expect(compose.services.broker?.command).toContain(
+			"internal://broker:29092,external://localhost:$" + "{KAFKA_PORT:-9092}",
+		);
+	});
+
+	it("checks http presets against their own health path", () => {
+		const compose = buildComposeModel({
+			search: service.meilisearch({ masterKey: "dev-master-key" }),
+			clickhouse: service.clickhouse(),
+		});
+
+		expect(compose.services.search?.healthcheck?.test).toEqual([
+			"CMD-SHELL",
+			"curl -fsS 'http://127.0.0.1:7700/health' >/dev/null 2>&1 || wget -qO- 'http://127.0.0.1:7700/health' >/dev/null || exit 1",
+		]);
+		expect(compose.services.search?.environment?.MEILI_MASTER_KEY).toBe(
+			"dev-master-key",
+		);
+		expect(compose.services.clickhouse?.healthcheck?.test).toEqual([
+			"CMD-SHELL",
+			"curl -fsS 'http://127.0.0.1:8123/ping' >/dev/null 2>&1 || wget -qO- 'http://127.0.0.1:8123/ping' >/dev/null || exit 1",
+		]);
+	});
+
+	it("builds opensearch with memory limits and a start period", () => {
+		const compose = buildComposeModel({
+			opensearch: service.opensearch({ heapSize: "1g" }),
+		});
+
+		expect(compose.services.opensearch?.environment).toMatchObject({
+			"discovery.type": "single-node",
+			OPENSEARCH_JAVA_OPTS: "-Xms1g -Xmx1g",
+		});
+		expect(compose.services.opensearch?.ulimits).toEqual({
+			memlock: { soft: -1, hard: -1 },
+			nofile: { soft: 65536, hard: 65536 },
+		});
+		expect(compose.services.opensearch?.healthcheck?.start_period).toBe("90s");
+	});
+
 	it("supports helper and raw custom service definitions", () => {
 		const services: Record<string, ServiceConfig> = {
 			postgres: service.postgres({
@@ -118,6 +261,281 @@ describe("buildComposeModel", () => {
 	});
 });
 
+describe("getServiceShellCommand", () => {
+	it("uses the preset client with configured credentials", () => {
+		expect(
+			getServiceShellCommand(
+				"db",
+				service.postgres({ user: "app", database: "appdb" }),
+			),
+		).toEqual(["psql", "-U", "app", "-d", "appdb"]);
+		expect(getServiceShellCommand("cache", service.redis())).toEqual([
+			"redis-cli",
+		]);
+		expect(getServiceShellCommand("clickhouse", { port: 8123 })).toEqual([
+			"clickhouse-client",
+			"--user",
+			"default",
+			"--password",
+			"clickhouse",
+			"--database",
+			"default",
+		]);
+	});
+
+	it("opens mysql/mariadb clients with the configured credentials", () => {
+		expect(
+			getServiceShellCommand("mysql", service.mysql({ database: "legacy" })),
+		).toEqual(["mysql", "-u", "root", "-proot", "legacy"]);
+		expect(getServiceShellCommand("billing", service.mariadb())).toEqual([
+			"mariadb",
+			"-u",
+			"root",
+			"-proot",
+		]);
+	});
+
+	it("falls back to sh for custom services", () => {
+		expect(
+			getServiceShellCommand(
+				"nats",
+				service.custom({ port: 4222, docker: { image: "nats:2" } }),
+			),
+		).toEqual(["sh"]);
+	});
+});
+
+describe("preset provisioning and env vars", () => {
+	it("creates s3 buckets and marks public ones readable", () => {
+		const command = getServiceProvisionCommand(
+			"s3",
+			service.s3({ buckets: ["uploads"], publicRead: ["avatars"] }),
+		);
+
+		expect(command?.slice(0, 2)).toEqual(["sh", "-c"]);
+		expect(command?.slice(3)).toEqual([
+			"sh",
+			"minioadmin",
+			"minioadmin",
+			"uploads",
+			"avatars",
+			"public:avatars",
+		]);
+		expect(getServiceProvisionCommand("s3", service.s3())).toBeNull();
+		expect(
+			getServiceProvisionCommand("postgres", service.postgres()),
+		).toBeNull();
+	});
+
+	it("declares rabbitmq exchanges and queues", () => {
+		const command = getServiceProvisionCommand(
+			"rabbitmq",
+			service.rabbitmq({
+				queues: [{ name: "jobs", durable: false }],
+				exchanges: ["events"],
+			}),
+		);
+
+		expect(command?.slice(3)).toEqual([
+			"sh",
+			"guest",
+			"guest",
+			"exchange:topic:events",
+			"queue:false:jobs",
+		]);
+		expect(
+			getServiceProvisionCommand("rabbitmq", service.rabbitmq()),
+		).toBeNull();
+	});
+
+	it("creates kafka topics through the internal listener", () => {
+		const command = getServiceProvisionCommand(
+			"kafka",
+			service.kafka({ topics: ["orders", { name: "logs", partitions: 3 }] }),
+		);
+
+		expect(command?.slice(3)).toEqual([
+			"sh",
+			"127.0.0.1:29092",
+			"1:orders",
+			"3:logs",
+		]);
+		expect(getServiceProvisionCommand("kafka", service.kafka())).toBeNull();
+	});
+
+	it("ensures postgres databases exist on every start", () => {
+		const command = getServiceProvisionCommand(
+			"postgres",
+			service.postgres({ databases: ["app", "app_test"] }),
+		);
+
+		expect(command?.slice(4)).toEqual([
+			`SELECT 'CREATE DATABASE "app_test"' WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = 'app_test')\\gexec\n`,
+			"postgres",
+			"app",
+		]);
+		expect(
+			getServiceProvisionCommand("postgres", service.postgres()),
+		).toBeNull();
+	});
+
+	it("creates search indexes", () => {
+		const meili = getServiceProvisionCommand(
+			"search",
+			service.meilisearch({
+				masterKey: "key",
+				indexes: [{ name: "users", primaryKey: "id" }],
+			}),
+		);
+		const opensearch = getServiceProvisionCommand(
+			"opensearch",
+			service.opensearch({ indexes: ["logs"] }),
+		);
+
+		expect(meili?.slice(3)).toEqual([
+			"sh",
+			"key",
+			'{"uid":"users","primaryKey":"id"}',
+		]);
+		expect(opensearch?.slice(3)).toEqual(["sh", "logs"]);
+		expect(
+			getServiceProvisionCommand("opensearch", service.opensearch()),
+		).toBeNull();
+	});
+
+	it("prefixes preset env vars with the service key", () => {
+		expect(
+			getServiceEnvVars(
+				"search-index.v2",
+				service.meilisearch({ masterKey: "key" }),
+				"http://localhost:7700",
+			),
+		).toEqual({ SEARCH_INDEX_V2_MASTER_KEY: "key" });
+		expect(
+			getServiceEnvVars("postgres", service.postgres(), "postgresql://x"),
+		).toEqual({});
+	});
+
+	it("uses the fixed S3 prefix whatever the service key", () => {
+		expect(
+			getServiceEnvVars(
+				"uploads",
+				service.s3({ user: "app", password: "secret123" }),
+				"http://localhost:9000",
+			),
+		).toEqual({
+			S3_ENDPOINT: "http://localhost:9000",
+			S3_ACCESS_KEY: "app",
+			S3_SECRET_KEY: "secret123",
+		});
+	});
+});
+
+describe("registerServicePreset", () => {
+	function defineAuthEmulator(preset: string) {
+		return defineDockerService<
+			{ port?: number; projectId?: string },
+			ServiceConfig & { projectId: string }
+		>({
+			preset,
+			defaults: { port: 9199, internalPort: 9099, healthCheck: "tcp" },
+			shell: () => ["bash"],
+			env: ({ prefix, config }) => ({
+				[`${prefix}_PROJECT_ID`]:
+					(config as Partial<{ projectId: string }>).projectId ?? "demo",
+			}),
+			enhanceServiceConfig: (base, options) => ({
+				...base,
+				projectId: options.projectId ?? "demo",
+				urlTemplate: ({ host, port }) => `http://${host}:${port}/auth`,
+			}),
+			build: ({ serviceKey, config }) => ({
+				service: {
+					image: "example/auth-emulator",
+					ports: getDefaultPortBindings(serviceKey, config, preset),
+				},
+			}),
+		});
+	}
+
+	afterEach(() => {
+		unregisterServicePreset("authemu");
+	});
+
+	it("treats registered presets like built-ins", () => {
+		const authemu = registerServicePreset(defineAuthEmulator("authemu"));
+		const cfg = authemu.toServiceConfig({ port: 9300, projectId: "app" });
+
+		expect(cfg.projectId).toBe("app");
+		expect(
+			buildComposeModel({ authemu: { port: 9199 }, auth: cfg }).services,
+		).toEqual({
+			authemu: {
+				image: "example/auth-emulator",
+				ports: ["$" + "{AUTHEMU_PORT:-9199}:9099"],
+			},
+			auth: {
+				image: "example/auth-emulator",
+				ports: ["$" + "{AUTH_PORT:-9300}:9099"],
+			},
+		});
+		expect(getServiceShellCommand("auth", cfg)).toEqual(["bash"]);
+		expect(getServiceEnvVars("auth", cfg, "http://localhost:9300")).toEqual({
+			AUTH_PROJECT_ID: "app",
+		});
+		expect(
+			validateConfig({
+				projectPrefix: "myapp",
+				services: { authemu: { port: 9199 }, auth: cfg },
+			}),
+		).toEqual([]);
+	});
+
+	it("gives services inferred by name the preset's URL template", () => {
+		registerServicePreset(defineAuthEmulator("authemu"));
+
+		expect(
+			computeUrls(
+				{ authemu: { port: 9199 } },
+				undefined,
+				{ authemu: 9199 },
+				"",
+			),
+		).toEqual({ authemu: "http://localhost:9199/auth" });
+	});
+
+	it("forgets unregistered presets", () => {
+		registerServicePreset(defineAuthEmulator("authemu"));
+
+		expect(unregisterServicePreset("authemu")).toBe(true);
+		expect(unregisterServicePreset("authemu")).toBe(false);
+		expect(inferDockerPreset("authemu")).toBeUndefined();
+		expect(() => buildComposeModel({ authemu: { port: 9199 } })).toThrow();
+	});
+
+	it("accepts presets listed in the config without registering them", () => {
+		const preset = defineAuthEmulator("authemu-config");
+		const config = {
+			projectPrefix: "myapp",
+			services: { auth: preset.toServiceConfig() },
+		};
+
+		expect(validateConfig(config)).toEqual([
+			'Service "auth" has invalid docker preset "authemu-config".',
+		]);
+		expect(validateConfig({ ...config, presets: [preset] })).toEqual([]);
+	});
+
+	it("rejects built-in and malformed names", () => {
+		expect(() => registerServicePreset(defineAuthEmulator("postgres"))).toThrow(
+			'Preset "postgres" is built in and cannot be replaced',
+		);
+		expect(() => registerServicePreset(defineAuthEmulator("Auth"))).toThrow(
+			'Invalid preset name "Auth"',
+		);
+	});
+});
+
 describe("composeToYaml", () => {
 	it("serializes with deterministic key ordering", () => {
 		const yaml = composeToYaml({
@@ -156,6 +574,99 @@ describe("writeGeneratedComposeFile", () => {
 		}
 	});
 
+	it("configures clickhouse for native BACKUP/RESTORE snapshots", () => {
+		const root = join(tmpdir(), `buncargo-compose-test-${Date.now()}-ch`);
+		try {
+			writeGeneratedComposeFile(root, { events: service.clickhouse() });
+
+			expect(
+				readFileSync(
+					join(root, ".buncargo/docker-compose.generated.yml"),
+					"utf-8",
+				),
+			).toContain(
+				"./clickhouse/events-backups.xml:/etc/clickhouse-server/config.d/buncargo-backups.xml:ro",
+			);
+			const xml = readFileSync(
+				join(root, ".buncargo/clickhouse/events-backups.xml"),
+				"utf-8",
+			);
+			expect(xml).toContain("<allowed_disk>backups</allowed_disk>");
+			expect(xml).toContain(
+				"<allowed_path>/var/lib/clickhouse/backups/</allowed_path>",
+			);
+
+			const commands = getServiceSnapshotCommands(
+				"events",
+				service.clickhouse(),
+			);
+			expect(commands?.extension).toBe("zip");
+			expect(commands?.save.join(" ")).toContain("BACKUP DATABASE");
+			expect(commands?.restore.join(" ")).toContain("RESTORE DATABASE");
+		} finally {
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it("snapshots every configured postgres database", () => {
+		const commands = getServiceSnapshotCommands(
+			"postgres",
+			service.postgres({ databases: ["app", "app_test"], user: "dev" }),
+		);
+
+		expect(commands?.extension).toBe("tar");
+		expect(commands?.save.slice(3)).toEqual(["sh", "dev", "app", "app_test"]);
+		expect(commands?.restore.slice(3)).toEqual([
+			"sh",
+			"dev",
+			"app",
+			"app_test",
+		]);
+		expect(
+			getServiceSnapshotCommands("postgres", service.postgres())?.save.slice(3),
+		).toEqual(["sh", "postgres", "postgres"]);
+	});
+
+	it("writes postgres setup SQL and mounts init scripts", () => {
+		const root = join(tmpdir(), `buncargo-compose-test-${Date.now()}-init`);
+		mkdirSync(join(root, "db/init"), { recursive: true });
+		writeFileSync(join(root, "db/init/seed.sql"), "select 1;");
+		try {
+			writeGeneratedComposeFile(root, {
+				postgres: service.postgres({
+					databases: ["app", "app_test"],
+					extensions: ["vector"],
+					initScripts: ["./db/init/*.sql"],
+				}),
+			});
+
+			const yaml = readFileSync(
+				join(root, ".buncargo/docker-compose.generated.yml"),
+				"utf-8",
+			);
+			expect(yaml).toContain(
+				"./initdb/postgres.sql:/docker-entrypoint-initdb.d/00-buncargo.sql:ro",
+			);
+			expect(yaml).toContain(
+				`${join(root, "db/init/seed.sql")}:/docker-entrypoint-initdb.d/01-seed.sql:ro`,
+			);
+			expect(
+				readFileSync(join(root, ".buncargo/initdb/postgres.sql"), "utf-8"),
+			).toBe(
+				[
+					`SELECT 'CREATE DATABASE "app_test"' WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = 'app_test')\\gexec`,
+					'\\connect "app"',
+					'CREATE EXTENSION IF NOT EXISTS "vector";',
+					'\\connect "app_test"',
+					'CREATE EXTENSION IF NOT EXISTS "vector";',
+					"",
+				].join("\n"),
+			);
+		} finally {
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+
 	it("respects if-missing write strategy", () => {
 		const root = join(tmpdir(), `buncargo-compose-test-${Date.now()}-missing`);
 		mkdirSync(root, { recursive: true });
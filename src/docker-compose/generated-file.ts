@@ -1,7 +1,7 @@
 import { existsSync, mkdirSync, writeFileSync } from "node:fs";
-import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
 import type { DockerComposeGenerationOptions, ServiceConfig } from "../types";
-import { buildComposeModel } from "./model";
+import { buildComposeFiles, buildComposeModel } from "./model";
 import { composeToYaml } from "./yaml";
 
 export const DEFAULT_GENERATED_COMPOSE_FILE =
@@ -35,10 +35,17 @@ export function writeGeneratedComposeFile(
 	const writeStrategy = docker?.writeStrategy ?? "always";
 	const shouldWrite = writeStrategy === "always" || !existsSync(absolutePath);
 	if (shouldWrite) {
-		const composeModel = buildComposeModel(services, docker);
+		const composeModel = buildComposeModel(services, docker, root);
 		const yaml = composeToYaml(composeModel);
 		mkdirSync(dirname(absolutePath), { recursive: true });
 		writeFileSync(absolutePath, yaml, "utf-8");
+		for (const [path, content] of Object.entries(
+			buildComposeFiles(services, root),
+		)) {
+			const filePath = join(dirname(absolutePath), path);
+			mkdirSync(dirname(filePath), { recursive: true });
+			writeFileSync(filePath, content, "utf-8");
+		}
 	}
 
 	return composeFileArg;
@@ -3,5 +3,19 @@ export {
 	getGeneratedComposePath,
 	writeGeneratedComposeFile,
 } from "./generated-file";
-export { buildComposeModel } from "./model";
+export {
+	buildComposeModel,
+	getServiceEnvVars,
+	getServiceProvisionCommand,
+	getServiceShellCommand,
+	getServiceSnapshotCommands,
+	getServiceUrlTemplate,
+	resolveServicePreset,
+} from "./model";
+export {
+	defineDockerService,
+	registerServicePreset,
+	unregisterServicePreset,
+} from "./services";
+export { getDefaultPortBindings, resolveHealthcheck } from "./services/shared";
 export { composeToYaml } from "./yaml";
@@ -3,12 +3,23 @@ import type {
 	DockerComposeNode,
 	DockerComposeServiceRaw,
 	DockerComposeVolumeRaw,
-	DockerPresetName,
 	DockerPresetServiceDefinition,
 	DockerServiceDefinition,
 	ServiceConfig,
+	ServicePresetName,
+	UrlBuilderFn,
 } from "../types";
-import { buildPresetDockerService, inferDockerPreset } from "./services";
+import {
+	buildPresetDockerService,
+	getPresetEnvPrefix,
+	getPresetEnvVars,
+	getPresetProvisionCommand,
+	getPresetShellCommand,
+	getPresetSnapshotCommands,
+	getPresetUrlTemplate,
+	inferDockerPreset,
+	type ServiceSnapshotCommands,
+} from "./services";
 import { getDefaultPortBindings } from "./services/shared";
 
 export type ComposeDocument = {
@@ -76,7 +87,7 @@ type NormalizedServiceConfig =
 	| {
 			kind: "preset";
 			serviceName: string;
-			preset: DockerPresetName;
+			preset: ServicePresetName;
 			serviceOverride?: DockerComposeServiceRaw;
 	  }
 	| {
@@ -132,13 +143,86 @@ function normalizeServiceConfig(
 	};
 }
 
+/**
+ * Preset backing a service, if any (explicit helper or inferred from the key).
+ */
+export function resolveServicePreset(
+	name: string,
+	config: ServiceConfig,
+): ServicePresetName | undefined {
+	if (isPresetDefinition(config.docker)) return config.docker.preset;
+	return inferDockerPreset(name);
+}
+
+/**
+ * Command for `buncargo shell`: the preset's client, or `sh` for custom services.
+ */
+export function getServiceShellCommand(
+	name: string,
+	config: ServiceConfig,
+): string[] {
+	return getPresetShellCommand(resolveServicePreset(name, config), config);
+}
+
+/**
+ * Commands for `buncargo snapshot`, or null when the service has no snapshot support.
+ */
+export function getServiceSnapshotCommands(
+	name: string,
+	config: ServiceConfig,
+): ServiceSnapshotCommands | null {
+	return getPresetSnapshotCommands(resolveServicePreset(name, config), config);
+}
+
+/**
+ * Setup command run inside the service container on start, or null.
+ */
+export function getServiceProvisionCommand(
+	name: string,
+	config: ServiceConfig,
+): string[] | null {
+	return getPresetProvisionCommand(resolveServicePreset(name, config), config);
+}
+
+/**
+ * URL template of a service: its own, or the default of its preset.
+ */
+export function getServiceUrlTemplate(
+	name: string,
+	config: ServiceConfig,
+): UrlBuilderFn | undefined {
+	return (
+		config.urlTemplate ??
+		getPresetUrlTemplate(resolveServicePreset(name, config))
+	);
+}
+
+/**
+ * Preset environment variables of a service, prefixed with the preset's
+ * `envPrefix` or the service key as an env var name.
+ */
+export function getServiceEnvVars(
+	name: string,
+	config: ServiceConfig,
+	url: string,
+): Record<string, string> {
+	const preset = resolveServicePreset(name, config);
+	return getPresetEnvVars(preset, {
+		prefix: getPresetEnvPrefix(preset, name),
+		url,
+		config,
+	});
+}
+
 function resolveServiceDefinition(
 	name: string,
 	config: ServiceConfig,
+	root: string,
 ): {
 	serviceName: string;
 	service: DockerComposeServiceRaw;
 	volume?: string;
+	files?: Record<string, string>;
 } {
 	const normalized = normalizeServiceConfig(name, config);
 	if (normalized.kind === "raw") {
@@ -148,10 +232,14 @@ function resolveServiceDefinition(
 		};
 	}
 
-	const { service, volume } = buildPresetDockerService(normalized.preset, {
-		serviceKey: name,
-		config,
-	});
+	const { service, volume, files } = buildPresetDockerService(
+		normalized.preset,
+		{
+			serviceKey: name,
+			config,
+			root,
+		},
+	);
 	const mergedService = normalized.serviceOverride
 		? (deepMergeNode(
 				service as DockerComposeNode,
@@ -162,12 +250,14 @@ function resolveServiceDefinition(
 		serviceName: normalized.serviceName,
 		service: mergedService,
 		volume,
+		files,
 	};
 }
 
 export function buildComposeModel(
 	services: Record<string, ServiceConfig>,
 	docker?: DockerComposeGenerationOptions,
+	root = process.cwd(),
 ): ComposeDocument {
 	const composeServices: Record<string, DockerComposeServiceRaw> = {};
 	const composeVolumes: Record<string, DockerComposeVolumeRaw> = {};
@@ -176,6 +266,7 @@ export function buildComposeModel(
 		const { serviceName, service, volume } = resolveServiceDefinition(
 			name,
 			serviceConfig,
+			root,
 		);
 		composeServices[serviceName] = service;
 		if (volume) {
@@ -195,3 +286,21 @@ export function buildComposeModel(
 	}
 	return document;
 }
+
+/**
+ * Files presets generate next to the compose file (e.g. postgres init SQL),
+ * by path relative to the compose file's directory.
+ */
+export function buildComposeFiles(
+	services: Record<string, ServiceConfig>,
+	root = process.cwd(),
+): Record<string, string> {
+	const files: Record<string, string> = {};
+	for (const [name, serviceConfig] of Object.entries(services)) {
+		Object.assign(
+			files,
+			resolveServiceDefinition(name, serviceConfig, root).files,
+		);
+	}
+	return files;
+}
@@ -23,6 +23,56 @@ export type ClickhouseServiceConfig = ServiceConfig & {
 	secondaryPort: number;
 };
 
+/** Directory for native backups inside the container (the `backups` disk) */
+const CLICKHOUSE_BACKUPS_PATH = "/var/lib/clickhouse/backups/";
+
+/**
+ * Server config enabling BACKUP/RESTORE to files: a `backups` disk and the
+ * same directory as allowed_path for `File(...)` destinations.
+ */
+export const CLICKHOUSE_BACKUPS_CONFIG = `<clickhouse>
+  <storage_configuration>
+    <disks>
+      <backups>
+        <type>local</type>
+        <path>${CLICKHOUSE_BACKUPS_PATH}</path>
+      </backups>
+    </disks>
+  </storage_configuration>
+  <backups>
+    <allowed_disk>backups</allowed_disk>
+    <allowed_path>${CLICKHOUSE_BACKUPS_PATH}</allowed_path>
+  </backups>
+</clickhouse>
+`;
+
+/**
+ * Shared prelude: credentials from positional args, a `ch` client shorthand
+ * and a temporary backup archive that is always removed.
+ */
+const CLICKHOUSE_SNAPSHOT_PRELUDE = `set -e
+user=$1 password=$2 db=$3
+file=${CLICKHOUSE_BACKUPS_PATH}buncargo-snapshot-$$.zip
+ch() { clickhouse-client --user "$user" --password "$password" --database system "$@"; }
+trap 'rm -f "$file"' EXIT`;
+
+/**
+ * Native BACKUP of the whole database (tables, materialized views with their
+ * inner tables, dictionaries), streamed to stdout as a zip archive.
+ * Arguments: $1 user, $2 password, $3 database.
+ */
+const CLICKHOUSE_SNAPSHOT_SAVE = `${CLICKHOUSE_SNAPSHOT_PRELUDE}
+ch --query "BACKUP DATABASE \\\`$db\\\` TO File('$file')" >/dev/null
+cat "$file"`;
+
+/**
+ * Replaces the database with a CLICKHOUSE_SNAPSHOT_SAVE archive read from stdin.
+ */
+const CLICKHOUSE_SNAPSHOT_RESTORE = `${CLICKHOUSE_SNAPSHOT_PRELUDE}
+cat > "$file"
+ch --query "DROP DATABASE IF EXISTS \\\`$db\\\` SYNC"
+ch --query "RESTORE DATABASE \\\`$db\\\` FROM File('$file')" >/dev/null`;
+
 export const clickhouseDockerService = defineDockerService<
 	ClickhouseServiceOptions,
 	ClickhouseServiceConfig
@@ -33,6 +83,27 @@ export const clickhouseDockerService = defineDockerService<
 		secondaryPort: 9000,
 		healthCheck: "http",
 	},
+	shell: (config) => [
+		"clickhouse-client",
+		"--user",
+		config.user ?? "default",
+		"--password",
+		config.password ?? "clickhouse",
+		"--database",
+		config.database ?? "default",
+	],
+	snapshot: (config) => {
+		const args = [
+			config.user ?? "default",
+			config.password ?? "clickhouse",
+			config.database ?? "default",
+		];
+		return {
+			extension: "zip",
+			save: ["sh", "-c", CLICKHOUSE_SNAPSHOT_SAVE, "sh", ...args],
+			restore: ["sh", "-c", CLICKHOUSE_SNAPSHOT_RESTORE, "sh", ...args],
+		};
+	},
 	enhanceServiceConfig: (base, options): ClickhouseServiceConfig => ({
 		...base,
 		secondaryPort: options.secondaryPort ?? 9000,
@@ -41,6 +112,7 @@ export const clickhouseDockerService = defineDockerService<
 		const user = config.user ?? "default";
 		const password = config.password ?? "clickhouse";
 		const database = config.database ?? "default";
+		const backupsConfigFile = `clickhouse/${serviceKey}-backups.xml`;
 		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
 			test: ["CMD-SHELL", "wget -qO- http://127.0.0.1:8123/ping || exit 1"],
 			interval: "250ms",
@@ -52,7 +124,10 @@ export const clickhouseDockerService = defineDockerService<
 			service: {
 				image: "clickhouse/clickhouse-server:24-alpine",
 				ports: getDefaultPortBindings(serviceKey, config, "clickhouse"),
-				volumes: [`${serviceKey}_data:/var/lib/clickhouse`],
+				volumes: [
+					`${serviceKey}_data:/var/lib/clickhouse`,
+					`./${backupsConfigFile}:/etc/clickhouse-server/config.d/buncargo-backups.xml:ro`,
+				],
 				environment: {
 					CLICKHOUSE_USER: user,
 					CLICKHOUSE_PASSWORD: password,
@@ -70,10 +145,12 @@ export const clickhouseDockerService = defineDockerService<
 					{
 						internalPort: 8123,
 						user,
+						healthPath: config.healthPath,
 					},
 				),
 			},
 			volume: `${serviceKey}_data`,
+			files: { [backupsConfigFile]: CLICKHOUSE_BACKUPS_CONFIG },
 		};
 	},
 });
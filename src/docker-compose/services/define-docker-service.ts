@@ -1,60 +1,30 @@
 import type {
-	BuiltInHealthCheck,
 	DockerComposeServiceRaw,
-	DockerPresetName,
 	DockerPresetServiceDefinition,
+	DockerServiceEnvFactory,
+	DockerServiceFactory,
+	DockerServicePreset,
+	DockerServicePresetDefaults,
+	DockerServiceProvisionFactory,
+	DockerServiceShellFactory,
+	DockerServiceSnapshotFactory,
+	PresetServiceSharedOptions,
 	ServiceConfig,
+	ServicePresetName,
 } from "../../types";
 
-export interface DockerServiceFactoryInput {
-	serviceKey: string;
-	config: ServiceConfig;
-}
-
-export interface DockerServiceFactoryOutput {
-	service: DockerComposeServiceRaw;
-	volume?: string;
-}
-
-export type DockerServiceFactory = (
-	input: DockerServiceFactoryInput,
-) => DockerServiceFactoryOutput;
-
-export type PresetServiceSharedOptions = Pick<
-	ServiceConfig,
-	"serviceName" | "database" | "user" | "password" | "expose"
-> & {
-	port?: number;
-	healthCheck?: BuiltInHealthCheck | false;
-	docker?: DockerComposeServiceRaw;
-};
-
-export interface DockerServicePresetDefaults {
-	port: number;
-	healthCheck: BuiltInHealthCheck;
-	secondaryPort?: number;
-}
-
-export interface DockerServicePreset<
-	TOptions extends PresetServiceSharedOptions = PresetServiceSharedOptions,
-	TServiceConfig extends ServiceConfig = ServiceConfig,
-> {
-	preset: DockerPresetName;
-	defaults: DockerServicePresetDefaults;
-	build: DockerServiceFactory;
-	createPresetDefinition(
-		service?: DockerComposeServiceRaw,
-	): DockerPresetServiceDefinition;
-	toServiceConfig(options?: TOptions): TServiceConfig;
-}
-
 interface DefineDockerServiceInput<
 	TOptions extends PresetServiceSharedOptions = PresetServiceSharedOptions,
 	TServiceConfig extends ServiceConfig = ServiceConfig,
 > {
-	preset: DockerPresetName;
+	preset: ServicePresetName;
 	defaults: DockerServicePresetDefaults;
 	build: DockerServiceFactory;
+	shell?: DockerServiceShellFactory;
+	snapshot?: DockerServiceSnapshotFactory;
+	provision?: DockerServiceProvisionFactory;
+	env?: DockerServiceEnvFactory;
+	envPrefix?: string;
 	enhanceServiceConfig?: (
 		base: ServiceConfig,
 		options: TOptions,
@@ -66,6 +36,10 @@ interface DefineDockerServiceInput<
  * The same definition powers:
  * - compose generation (`build`)
  * - typed config helper defaults (`toServiceConfig`)
+ * - the interactive client for `buncargo shell` (`shell`)
+ * - data snapshots for `buncargo snapshot` (`snapshot`)
+ * - setup inside the container on start (`provision`)
+ * - environment variables for apps (`env`)
  */
 export function defineDockerService<
 	TOptions extends PresetServiceSharedOptions = PresetServiceSharedOptions,
@@ -88,6 +62,7 @@ export function defineDockerService<
 			port: options.port ?? input.defaults.port,
 			expose: options.expose,
 			healthCheck: options.healthCheck ?? input.defaults.healthCheck,
+			healthPath: options.healthPath ?? input.defaults.healthPath,
 			database: options.database,
 			user: options.user,
 			password: options.password,
@@ -103,6 +78,11 @@ export function defineDockerService<
 		preset: input.preset,
 		defaults: input.defaults,
 		build: input.build,
+		shell: input.shell,
+		snapshot: input.snapshot,
+		provision: input.provision,
+		env: input.env,
+		envPrefix: input.envPrefix,
 		createPresetDefinition,
 		toServiceConfig,
 	};
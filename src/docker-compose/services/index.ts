@@ -1,34 +1,101 @@
 import type {
 	DockerComposeServiceRaw,
 	DockerPresetName,
+	DockerServiceEnvFactory,
+	DockerServicePreset,
 	ServiceConfig,
+	ServicePresetName,
+	ServiceSnapshotCommands,
+	UrlBuilderFn,
 } from "../../types";
-import type { DockerServicePreset } from "./define-docker-service";
 
 export type {
+	DockerServiceEnvFactory,
+	DockerServiceFactory,
+	DockerServiceFactoryInput,
+	DockerServiceFactoryOutput,
 	DockerServicePreset,
 	DockerServicePresetDefaults,
+	DockerServiceProvisionFactory,
+	DockerServiceShellFactory,
+	DockerServiceSnapshotFactory,
 	PresetServiceSharedOptions,
-} from "./define-docker-service";
+	ServiceSnapshotCommands,
+} from "../../types";
+export { defineDockerService } from "./define-docker-service";
 
 import {
 	type ClickhouseServiceOptions,
 	clickhouseDockerService,
 } from "./clickhouse";
-import { type PostgresServiceOptions, postgresDockerService } from "./postgres";
+import { type KafkaServiceOptions, kafkaDockerService } from "./kafka";
+import { type MailServiceOptions, mailDockerService } from "./mail";
+import { type MariadbServiceOptions, mariadbDockerService } from "./mariadb";
+import {
+	type MeilisearchServiceOptions,
+	meilisearchDockerService,
+} from "./meilisearch";
+import { type MongodbServiceOptions, mongodbDockerService } from "./mongodb";
+import { type MysqlServiceOptions, mysqlDockerService } from "./mysql";
+import {
+	type OpensearchServiceOptions,
+	opensearchDockerService,
+} from "./opensearch";
+import {
+	type PostgresServiceConfig,
+	type PostgresServiceOptions,
+	postgresDockerService,
+} from "./postgres";
+import { type RabbitmqServiceOptions, rabbitmqDockerService } from "./rabbitmq";
 import { type RedisServiceOptions, redisDockerService } from "./redis";
+import { type S3ServiceOptions, s3DockerService } from "./s3";
+import {
+	deleteRegisteredInternalPorts,
+	setRegisteredInternalPorts,
+} from "./shared";
 
 const PRESET_SERVICES = {
 	postgres: postgresDockerService,
 	redis: redisDockerService,
 	clickhouse: clickhouseDockerService,
+	mysql: mysqlDockerService,
+	mariadb: mariadbDockerService,
+	mongodb: mongodbDockerService,
+	s3: s3DockerService,
+	mail: mailDockerService,
+	rabbitmq: rabbitmqDockerService,
+	kafka: kafkaDockerService,
+	meilisearch: meilisearchDockerService,
+	opensearch: opensearchDockerService,
 } satisfies Record<DockerPresetName, DockerServicePreset>;
 
-export { clickhouseDockerService, postgresDockerService, redisDockerService };
+export {
+	clickhouseDockerService,
+	kafkaDockerService,
+	mailDockerService,
+	mariadbDockerService,
+	meilisearchDockerService,
+	mongodbDockerService,
+	mysqlDockerService,
+	opensearchDockerService,
+	postgresDockerService,
+	rabbitmqDockerService,
+	redisDockerService,
+	s3DockerService,
+};
 export type {
 	ClickhouseServiceOptions,
+	KafkaServiceOptions,
+	MailServiceOptions,
+	MariadbServiceOptions,
+	MeilisearchServiceOptions,
+	MongodbServiceOptions,
+	MysqlServiceOptions,
+	OpensearchServiceOptions,
 	PostgresServiceOptions,
+	RabbitmqServiceOptions,
 	RedisServiceOptions,
+	S3ServiceOptions,
 };
 
 export type CustomServiceOptions = ServiceConfig & {
@@ -40,28 +107,170 @@ export type CustomServiceOptions = ServiceConfig & {
  * Core owns this surface so defaults and preset mapping live in one place.
  */
 export const service = {
-	postgres: postgresDockerService.toServiceConfig,
+	postgres: postgresDockerService.toServiceConfig as <
+		const TDatabase extends string = never,
+	>(
+		options?: PostgresServiceOptions<TDatabase>,
+	) => PostgresServiceConfig<TDatabase>,
 	redis: redisDockerService.toServiceConfig,
 	clickhouse: clickhouseDockerService.toServiceConfig,
+	mysql: mysqlDockerService.toServiceConfig,
+	mariadb: mariadbDockerService.toServiceConfig,
+	mongodb: mongodbDockerService.toServiceConfig,
+	s3: s3DockerService.toServiceConfig,
+	mail: mailDockerService.toServiceConfig,
+	rabbitmq: rabbitmqDockerService.toServiceConfig,
+	kafka: kafkaDockerService.toServiceConfig,
+	meilisearch: meilisearchDockerService.toServiceConfig,
+	opensearch: opensearchDockerService.toServiceConfig,
 
 	custom(options: CustomServiceOptions): ServiceConfig {
 		return options;
 	},
 };
 
+/** Presets added with registerServicePreset, by name */
+const registeredPresets = new Map<string, DockerServicePreset>();
+
+const PRESET_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/**
+ * Register a third-party preset built with defineDockerService. Services keyed
+ * by its name infer it, and compose generation, validation, port bindings,
+ * `buncargo shell`, provisioning and env vars treat it like a built-in.
+ * Registering the same name again replaces the previous preset.
+ */
+export function registerServicePreset<TPreset extends DockerServicePreset>(
+	preset: TPreset,
+): TPreset {
+	const name = preset.preset;
+	if (!PRESET_NAME_PATTERN.test(name)) {
+		throw new Error(
+			`Invalid preset name "${name}". Use lowercase letters, digits, "-" and "_".`,
+		);
+	}
+	if (Object.hasOwn(PRESET_SERVICES, name)) {
+		throw new Error(`Preset "${name}" is built in and cannot be replaced`);
+	}
+	registeredPresets.set(name, preset);
+	setRegisteredInternalPorts(name, {
+		port: preset.defaults.internalPort ?? preset.defaults.port,
+		secondaryPort:
+			preset.defaults.secondaryInternalPort ?? preset.defaults.secondaryPort,
+	});
+	return preset;
+}
+
+/**
+ * Remove a preset added with registerServicePreset, e.g. after a test.
+ * Returns whether it was registered.
+ */
+export function unregisterServicePreset(name: string): boolean {
+	deleteRegisteredInternalPorts(name);
+	return registeredPresets.delete(name);
+}
+
+function getServicePreset(
+	preset: ServicePresetName,
+): DockerServicePreset | undefined {
+	if (Object.hasOwn(PRESET_SERVICES, preset)) {
+		return PRESET_SERVICES[preset as DockerPresetName];
+	}
+	return registeredPresets.get(preset);
+}
+
+/**
+ * Whether a preset with this name is built in or registered.
+ */
+export function hasServicePreset(preset: string): boolean {
+	return getServicePreset(preset) !== undefined;
+}
+
 export function inferDockerPreset(
 	serviceKey: string,
-): DockerPresetName | undefined {
+): ServicePresetName | undefined {
 	const normalized = serviceKey.toLowerCase();
-	if (Object.hasOwn(PRESET_SERVICES, normalized)) {
-		return normalized as DockerPresetName;
-	}
-	return undefined;
+	return hasServicePreset(normalized) ? normalized : undefined;
 }
 
 export function buildPresetDockerService(
-	preset: DockerPresetName,
+	preset: ServicePresetName,
 	input: Parameters<DockerServicePreset["build"]>[0],
 ): ReturnType<DockerServicePreset["build"]> {
-	return PRESET_SERVICES[preset].build(input);
+	const definition = getServicePreset(preset);
+	if (!definition) {
+		throw new Error(
+			`Unknown docker preset "${preset}". Register it with registerServicePreset() or add it to presets in dev.config.ts.`,
+		);
+	}
+	return definition.build(input);
+}
+
+/**
+ * Command that opens a preset's interactive client, e.g. psql for postgres.
+ * Services without a preset client fall back to `sh`.
+ */
+export function getPresetShellCommand(
+	preset: ServicePresetName | undefined,
+	config: ServiceConfig,
+): string[] {
+	const shell = preset ? getServicePreset(preset)?.shell : undefined;
+	return shell ? shell(config) : ["sh"];
+}
+
+/**
+ * Snapshot commands of a preset, or null when it does not support snapshots.
+ */
+export function getPresetSnapshotCommands(
+	preset: ServicePresetName | undefined,
+	config: ServiceConfig,
+): ServiceSnapshotCommands | null {
+	const snapshot = preset ? getServicePreset(preset)?.snapshot : undefined;
+	return snapshot ? snapshot(config) : null;
+}
+
+/**
+ * Setup command a preset runs inside its container on start, or null.
+ */
+export function getPresetProvisionCommand(
+	preset: ServicePresetName | undefined,
+	config: ServiceConfig,
+): string[] | null {
+	const provision = preset ? getServicePreset(preset)?.provision : undefined;
+	return provision ? provision(config) : null;
+}
+
+/**
+ * URL template a preset's helper sets by default, for services that infer the
+ * preset from their key instead of using the helper.
+ */
+export function getPresetUrlTemplate(
+	preset: ServicePresetName | undefined,
+): UrlBuilderFn | undefined {
+	return preset
+		? getServicePreset(preset)?.toServiceConfig().urlTemplate
+		: undefined;
+}
+
+/**
+ * Prefix of a service's preset env vars: the preset's fixed `envPrefix`, or the
+ * service key as an env var name ("my-cache" → "MY_CACHE").
+ */
+export function getPresetEnvPrefix(
+	preset: ServicePresetName | undefined,
+	serviceKey: string,
+): string {
+	const envPrefix = preset ? getServicePreset(preset)?.envPrefix : undefined;
+	return envPrefix ?? serviceKey.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+}
+
+/**
+ * Environment variables a preset contributes (empty for most presets).
+ */
+export function getPresetEnvVars(
+	preset: ServicePresetName | undefined,
+	input: Parameters<DockerServiceEnvFactory>[0],
+): Record<string, string> {
+	const env = preset ? getServicePreset(preset)?.env : undefined;
+	return env ? env(input) : {};
 }
@@ -0,0 +1,137 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import {
+	getDefaultPortBindings,
+	getPortEnvName,
+	resolveHealthcheck,
+} from "./shared";
+
+export type KafkaServiceOptions = {
+	/** Kafka API port for host clients. Default: 9092 */
+	port?: number;
+	/** Redpanda admin API port. Default: 9644 */
+	secondaryPort?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	serviceName?: string;
+	/** Topics created on start if missing (a string has one partition) */
+	topics?: (string | { name: string; partitions?: number })[];
+	docker?: DockerComposeServiceRaw;
+};
+
+export type KafkaServiceConfig = ServiceConfig & {
+	secondaryPort: number;
+	topics: { name: string; partitions: number }[];
+};
+
+/** Listener other compose services use, advertised under the service name */
+const INTERNAL_KAFKA_PORT = 29092;
+
+/**
+ * Creates missing topics through the internal listener, since the external one
+ * advertises a host port that is not reachable inside the container.
+ * Arguments: $1 broker address, then `<partitions>:<topic>`.
+ */
+const KAFKA_PROVISION_SCRIPT = `set -e
+broker=$1
+shift
+for arg; do
+  partitions=\${arg%%:*} topic=\${arg#*:}
+  rpk topic describe -X brokers="$broker" "$topic" >/dev/null 2>&1 ||
+    rpk topic create -X brokers="$broker" "$topic" --partitions "$partitions" >/dev/null
+done`;
+
+/**
+ * Single-node Kafka-compatible broker (Redpanda, no ZooKeeper or KRaft setup).
+ * The service URL is the bootstrap-servers string, e.g. `localhost:9092`.
+ */
+export const kafkaDockerService = defineDockerService<
+	KafkaServiceOptions,
+	KafkaServiceConfig
+>({
+	preset: "kafka",
+	defaults: {
+		port: 9092,
+		secondaryPort: 9644,
+		healthCheck: "tcp",
+	},
+	shell: () => ["bash"],
+	provision: (config) => {
+		const { topics = [] } = config as Partial<KafkaServiceConfig>;
+		if (topics.length === 0) return null;
+		return [
+			"sh",
+			"-c",
+			KAFKA_PROVISION_SCRIPT,
+			"sh",
+			`127.0.0.1:${INTERNAL_KAFKA_PORT}`,
+			...topics.map(({ name, partitions }) => `${partitions}:${name}`),
+		];
+	},
+	enhanceServiceConfig: (base, options): KafkaServiceConfig => {
+		const topics = (options.topics ?? []).map((topic) =>
+			typeof topic === "string"
+				? { name: topic, partitions: 1 }
+				: { name: topic.name, partitions: topic.partitions ?? 1 },
+		);
+		for (const { name, partitions } of topics) {
+			if (!Number.isInteger(partitions) || partitions < 1) {
+				throw new Error(
+					`Kafka topic "${name}" partitions must be a positive integer`,
+				);
+			}
+		}
+		return {
+			...base,
+			secondaryPort: options.secondaryPort ?? 9644,
+			urlTemplate: ({ host, port }) => `${host}:${port}`,
+			topics,
+		};
+	},
+	build: ({ serviceKey, config }) => {
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: [
+				"CMD-SHELL",
+				"rpk cluster health | grep -E 'Healthy:.+true' || exit 1",
+			],
+			interval: "1s",
+			timeout: "5s",
+			retries: 30,
+		};
+		// Host clients must be told the published port, which follows the offset
+		const hostPort = `\${${getPortEnvName(serviceKey)}:-${config.port}}`;
+
+		return {
+			service: {
+				image: "redpandadata/redpanda:latest",
+				command: [
+					"redpanda",
+					"start",
+					"--mode",
+					"dev-container",
+					"--smp",
+					"1",
+					"--kafka-addr",
+					`internal://0.0.0.0:${INTERNAL_KAFKA_PORT},external://0.0.0.0:9092`,
+					"--advertise-kafka-addr",
+					`internal://${config.serviceName ?? serviceKey}:${INTERNAL_KAFKA_PORT},external://localhost:${hostPort}`,
+				],
+				ports: getDefaultPortBindings(serviceKey, config, "kafka"),
+				volumes: [`${serviceKey}_data:/var/lib/redpanda/data`],
+				healthcheck: resolveHealthcheck(
+					config.healthCheck,
+					defaultHealthcheck,
+					{
+						internalPort: 9644,
+					},
+				),
+			},
+			volume: `${serviceKey}_data`,
+		};
+	},
+});
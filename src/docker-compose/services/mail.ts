@@ -0,0 +1,67 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import { getDefaultPortBindings, resolveHealthcheck } from "./shared";
+
+export type MailServiceOptions = {
+	/** SMTP port. Default: 1025 */
+	port?: number;
+	/** Web UI and HTTP API port. Default: 8025 */
+	secondaryPort?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	serviceName?: string;
+	docker?: DockerComposeServiceRaw;
+};
+
+export type MailServiceConfig = ServiceConfig & {
+	secondaryPort: number;
+};
+
+export const mailDockerService = defineDockerService<
+	MailServiceOptions,
+	MailServiceConfig
+>({
+	preset: "mail",
+	defaults: {
+		port: 1025,
+		secondaryPort: 8025,
+		healthCheck: "tcp",
+	},
+	enhanceServiceConfig: (base, options): MailServiceConfig => ({
+		...base,
+		secondaryPort: options.secondaryPort ?? 8025,
+		urlTemplate: ({ host, port }) => `smtp://${host}:${port}`,
+	}),
+	build: ({ serviceKey, config }) => {
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: ["CMD", "/mailpit", "readyz"],
+			interval: "250ms",
+			timeout: "5s",
+			retries: 20,
+		};
+
+		return {
+			service: {
+				image: "axllent/mailpit:latest",
+				ports: getDefaultPortBindings(serviceKey, config, "mail"),
+				environment: {
+					// Apps configured with SMTP credentials can send without TLS
+					MP_SMTP_AUTH_ACCEPT_ANY: 1,
+					MP_SMTP_AUTH_ALLOW_INSECURE: 1,
+				},
+				healthcheck: resolveHealthcheck(
+					config.healthCheck,
+					defaultHealthcheck,
+					{
+						internalPort: 8025,
+					},
+				),
+			},
+		};
+	},
+});
@@ -0,0 +1,44 @@
+import type { BuiltInHealthCheck, DockerComposeServiceRaw } from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import {
+	DEFAULT_MYSQL_HEALTHCHECK,
+	getMysqlClientArgs,
+	getMysqlEnvironment,
+} from "./mysql";
+import { getDefaultPortBindings, resolveHealthcheck } from "./shared";
+
+export type MariadbServiceOptions = {
+	port?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	serviceName?: string;
+	database?: string;
+	user?: string;
+	password?: string;
+	docker?: DockerComposeServiceRaw;
+};
+
+export const mariadbDockerService = defineDockerService<MariadbServiceOptions>({
+	preset: "mariadb",
+	defaults: {
+		port: 3306,
+		healthCheck: "mysqladmin",
+	},
+	shell: (config) => ["mariadb", ...getMysqlClientArgs(config)],
+	build: ({ serviceKey, config }) => ({
+		service: {
+			image: "mariadb:11",
+			ports: getDefaultPortBindings(serviceKey, config, "mariadb"),
+			volumes: [`${serviceKey}_data:/var/lib/mysql`],
+			environment: getMysqlEnvironment("MARIADB", config),
+			healthcheck: resolveHealthcheck(
+				config.healthCheck,
+				DEFAULT_MYSQL_HEALTHCHECK,
+				{
+					internalPort: 3306,
+				},
+			),
+		},
+		volume: `${serviceKey}_data`,
+	}),
+});
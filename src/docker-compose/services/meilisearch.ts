@@ -0,0 +1,120 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import { getDefaultPortBindings, resolveHealthcheck } from "./shared";
+
+export type MeilisearchServiceOptions = {
+	port?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	healthPath?: string;
+	serviceName?: string;
+	/** Master key; without it the instance accepts unauthenticated requests */
+	masterKey?: string;
+	/** Indexes created on start if missing (a string has no primary key) */
+	indexes?: (string | { name: string; primaryKey?: string })[];
+	docker?: DockerComposeServiceRaw;
+};
+
+export type MeilisearchServiceConfig = ServiceConfig & {
+	masterKey?: string;
+	indexes: { name: string; primaryKey?: string }[];
+};
+
+const INDEX_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Creates indexes; Meilisearch turns an existing uid into a failed task, so
+ * this is safe to repeat. Arguments: $1 master key, then JSON request bodies.
+ */
+const MEILISEARCH_PROVISION_SCRIPT = `set -e
+key=$1
+shift
+for body; do
+  curl -fsS -o /dev/null -X POST http://127.0.0.1:7700/indexes \\
+    -H "Content-Type: application/json" -H "Authorization: Bearer $key" --data "$body"
+done`;
+
+export const meilisearchDockerService = defineDockerService<
+	MeilisearchServiceOptions,
+	MeilisearchServiceConfig
+>({
+	preset: "meilisearch",
+	defaults: {
+		port: 7700,
+		healthCheck: "http",
+		healthPath: "/health",
+	},
+	provision: (config) => {
+		const { masterKey = "", indexes = [] } =
+			config as Partial<MeilisearchServiceConfig>;
+		if (indexes.length === 0) return null;
+		return [
+			"sh",
+			"-c",
+			MEILISEARCH_PROVISION_SCRIPT,
+			"sh",
+			masterKey,
+			...indexes.map(({ name, primaryKey }) =>
+				JSON.stringify({ uid: name, primaryKey }),
+			),
+		];
+	},
+	env: ({ prefix, config }) => {
+		const { masterKey } = config as Partial<MeilisearchServiceConfig>;
+		return masterKey ? { [`${prefix}_MASTER_KEY`]: masterKey } : {};
+	},
+	enhanceServiceConfig: (base, options): MeilisearchServiceConfig => {
+		const indexes = (options.indexes ?? []).map((index) =>
+			typeof index === "string" ? { name: index } : index,
+		);
+		for (const { name } of indexes) {
+			if (!INDEX_NAME_PATTERN.test(name)) {
+				throw new Error(
+					`Invalid Meilisearch index name "${name}". Use letters, digits, "_" and "-".`,
+				);
+			}
+		}
+		return {
+			...base,
+			urlTemplate: ({ host, port }) => `http://${host}:${port}`,
+			masterKey: options.masterKey,
+			indexes,
+		};
+	},
+	build: ({ serviceKey, config }) => {
+		const { masterKey } = config as Partial<MeilisearchServiceConfig>;
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: ["CMD", "curl", "-fsS", "http://127.0.0.1:7700/health"],
+			interval: "250ms",
+			timeout: "5s",
+			retries: 20,
+		};
+
+		return {
+			service: {
+				image: "getmeili/meilisearch:v1.11",
+				ports: getDefaultPortBindings(serviceKey, config, "meilisearch"),
+				volumes: [`${serviceKey}_data:/meili_data`],
+				environment: {
+					MEILI_ENV: "development",
+					MEILI_NO_ANALYTICS: true,
+					...(masterKey ? { MEILI_MASTER_KEY: masterKey } : {}),
+				},
+				healthcheck: resolveHealthcheck(
+					config.healthCheck,
+					defaultHealthcheck,
+					{
+						internalPort: 7700,
+						healthPath: config.healthPath,
+					},
+				),
+			},
+			volume: `${serviceKey}_data`,
+		};
+	},
+});
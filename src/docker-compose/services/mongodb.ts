@@ -0,0 +1,100 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import {
+	getDefaultPortBindings,
+	MONGO_PRIMARY_CHECK,
+	resolveHealthcheck,
+} from "./shared";
+
+export type MongodbServiceOptions = {
+	port?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	serviceName?: string;
+	database?: string;
+	/**
+	 * Run a single-node replica set (required by Prisma and change streams).
+	 * `true` uses the name "rs0".
+	 */
+	replicaSet?: boolean | string;
+	docker?: DockerComposeServiceRaw;
+};
+
+/** Replica set name used by `replicaSet: true` */
+export const DEFAULT_REPLICA_SET = "rs0";
+
+/**
+ * Healthcheck that initiates the replica set on its first run and reports
+ * healthy once the node is a writable primary. rs.status() throws until the
+ * set is initiated, so rs.initiate() only ever runs once per volume.
+ */
+function getReplicaSetHealthcheck(
+	replicaSet: string,
+): DockerComposeHealthcheckRaw {
+	return {
+		test: [
+			"CMD",
+			"mongosh",
+			"--quiet",
+			"--eval",
+			`try { rs.status() } catch (e) { rs.initiate({ _id: '${replicaSet}', members: [{ _id: 0, host: 'localhost:27017' }] }) } ${MONGO_PRIMARY_CHECK}`,
+		],
+		interval: "1s",
+		timeout: "5s",
+		retries: 60,
+	};
+}
+
+export const mongodbDockerService = defineDockerService<MongodbServiceOptions>({
+	preset: "mongodb",
+	defaults: {
+		port: 27017,
+		healthCheck: "mongosh",
+	},
+	shell: (config) => ["mongosh", ...(config.database ? [config.database] : [])],
+	enhanceServiceConfig: (base, options): ServiceConfig => {
+		const replicaSet =
+			options.replicaSet === true
+				? DEFAULT_REPLICA_SET
+				: options.replicaSet || undefined;
+		return replicaSet ? { ...base, replicaSet } : base;
+	},
+	build: ({ serviceKey, config }) => {
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: ["CMD", "mongosh", "--quiet", "--eval", MONGO_PRIMARY_CHECK],
+			interval: "250ms",
+			timeout: "5s",
+			retries: 20,
+		};
+
+		return {
+			service: {
+				image: "mongo:7",
+				ports: getDefaultPortBindings(serviceKey, config, "mongodb"),
+				volumes: [`${serviceKey}_data:/data/db`],
+				...(config.replicaSet
+					? {
+							command: ["--replSet", config.replicaSet, "--bind_ip_all"],
+							// Initiation runs inside the healthcheck, so it is kept even when
+							// host-side health checks are disabled.
+							healthcheck: getReplicaSetHealthcheck(config.replicaSet),
+						}
+					: {
+							healthcheck: resolveHealthcheck(
+								config.healthCheck,
+								defaultHealthcheck,
+								{
+									internalPort: 27017,
+								},
+							),
+						}),
+			},
+			volume: `${serviceKey}_data`,
+		};
+	},
+});
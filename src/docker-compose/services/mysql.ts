@@ -0,0 +1,91 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import {
+	getDefaultPortBindings,
+	MYSQL_PING_COMMAND,
+	resolveHealthcheck,
+} from "./shared";
+
+export type MysqlServiceOptions = {
+	port?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	serviceName?: string;
+	database?: string;
+	user?: string;
+	password?: string;
+	docker?: DockerComposeServiceRaw;
+};
+
+/**
+ * Client arguments shared by the mysql and mariadb presets.
+ * The database argument is omitted when none is configured.
+ */
+export function getMysqlClientArgs(config: ServiceConfig): string[] {
+	return [
+		"-u",
+		config.user ?? "root",
+		`-p${config.password ?? "root"}`,
+		...(config.database ? [config.database] : []),
+	];
+}
+
+/**
+ * Container environment for the mysql and mariadb images. Both create the
+ * database and a non-root user from these variables on first start.
+ */
+export function getMysqlEnvironment(
+	prefix: "MYSQL" | "MARIADB",
+	config: ServiceConfig,
+): Record<string, string> {
+	const user = config.user ?? "root";
+	const password = config.password ?? "root";
+	const environment: Record<string, string> = {
+		[`${prefix}_ROOT_PASSWORD`]: password,
+	};
+	if (config.database) {
+		environment[`${prefix}_DATABASE`] = config.database;
+	}
+	if (user !== "root") {
+		environment[`${prefix}_USER`] = user;
+		environment[`${prefix}_PASSWORD`] = password;
+	}
+	return environment;
+}
+
+export const DEFAULT_MYSQL_HEALTHCHECK: DockerComposeHealthcheckRaw = {
+	test: ["CMD-SHELL", MYSQL_PING_COMMAND],
+	interval: "1s",
+	timeout: "5s",
+	retries: 60,
+};
+
+export const mysqlDockerService = defineDockerService<MysqlServiceOptions>({
+	preset: "mysql",
+	defaults: {
+		port: 3306,
+		healthCheck: "mysqladmin",
+	},
+	shell: (config) => ["mysql", ...getMysqlClientArgs(config)],
+	build: ({ serviceKey, config }) => ({
+		service: {
+			image: "mysql:8.4",
+			ports: getDefaultPortBindings(serviceKey, config, "mysql"),
+			volumes: [`${serviceKey}_data:/var/lib/mysql`],
+			environment: getMysqlEnvironment("MYSQL", config),
+			healthcheck: resolveHealthcheck(
+				config.healthCheck,
+				DEFAULT_MYSQL_HEALTHCHECK,
+				{
+					internalPort: 3306,
+				},
+			),
+		},
+		volume: `${serviceKey}_data`,
+	}),
+});
@@ -0,0 +1,125 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import { getDefaultPortBindings, resolveHealthcheck } from "./shared";
+
+export type OpensearchServiceOptions = {
+	port?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	healthPath?: string;
+	serviceName?: string;
+	/** JVM heap (-Xms and -Xmx). Default: '512m' */
+	heapSize?: string;
+	/** Indexes created on start if missing */
+	indexes?: string[];
+	docker?: DockerComposeServiceRaw;
+};
+
+export type OpensearchServiceConfig = ServiceConfig & {
+	heapSize: string;
+	indexes: string[];
+};
+
+const INDEX_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+/** Healthy once the single node has allocated its primary shards */
+const OPENSEARCH_HEALTH_PATH =
+	"/_cluster/health?wait_for_status=yellow&timeout=1s";
+
+/**
+ * Creates missing indexes. Arguments: index names.
+ */
+const OPENSEARCH_PROVISION_SCRIPT = `set -e
+for index; do
+  curl -fsS -o /dev/null -I "http://127.0.0.1:9200/$index" ||
+    curl -fsS -o /dev/null -X PUT "http://127.0.0.1:9200/$index"
+done`;
+
+/**
+ * Single-node OpenSearch without the security plugin (plain HTTP, no auth).
+ */
+export const opensearchDockerService = defineDockerService<
+	OpensearchServiceOptions,
+	OpensearchServiceConfig
+>({
+	preset: "opensearch",
+	defaults: {
+		port: 9200,
+		healthCheck: "http",
+		healthPath: OPENSEARCH_HEALTH_PATH,
+	},
+	provision: (config) => {
+		const { indexes = [] } = config as Partial<OpensearchServiceConfig>;
+		if (indexes.length === 0) return null;
+		return ["sh", "-c", OPENSEARCH_PROVISION_SCRIPT, "sh", ...indexes];
+	},
+	enhanceServiceConfig: (base, options): OpensearchServiceConfig => {
+		const indexes = options.indexes ?? [];
+		for (const index of indexes) {
+			if (!INDEX_NAME_PATTERN.test(index)) {
+				throw new Error(
+					`Invalid OpenSearch index name "${index}". Use lowercase letters, digits, ".", "_" and "-".`,
+				);
+			}
+		}
+		return {
+			...base,
+			urlTemplate: ({ host, port }) => `http://${host}:${port}`,
+			heapSize: options.heapSize ?? "512m",
+			indexes,
+		};
+	},
+	build: ({ serviceKey, config }) => {
+		const { heapSize = "512m" } = config as Partial<OpensearchServiceConfig>;
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: [
+				"CMD-SHELL",
+				`curl -fsS 'http://127.0.0.1:9200${OPENSEARCH_HEALTH_PATH}' >/dev/null || exit 1`,
+			],
+			interval: "1s",
+			timeout: "5s",
+			retries: 30,
+		};
+		const healthcheck = resolveHealthcheck(
+			config.healthCheck,
+			defaultHealthcheck,
+			{
+				internalPort: 9200,
+				healthPath: config.healthPath,
+			},
+		);
+
+		return {
+			service: {
+				image: "opensearchproject/opensearch:2",
+				ports: getDefaultPortBindings(serviceKey, config, "opensearch"),
+				volumes: [`${serviceKey}_data:/usr/share/opensearch/data`],
+				environment: {
+					"discovery.type": "single-node",
+					"bootstrap.memory_lock": true,
+					OPENSEARCH_JAVA_OPTS: `-Xms${heapSize} -Xmx${heapSize}`,
+					DISABLE_SECURITY_PLUGIN: true,
+					DISABLE_INSTALL_DEMO_CONFIG: true,
+				},
+				ulimits: {
+					memlock: {
+						soft: -1,
+						hard: -1,
+					},
+					nofile: {
+						soft: 65536,
+						hard: 65536,
+					},
+				},
+				// The JVM needs far longer to boot than the check's retries allow
+				healthcheck: healthcheck && { ...healthcheck, start_period: "90s" },
+			},
+			volume: `${serviceKey}_data`,
+		};
+	},
+});
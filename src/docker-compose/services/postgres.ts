@@ -1,60 +1,226 @@
+import { basename } from "node:path";
+import fg from "fast-glob";
 import type {
 	BuiltInHealthCheck,
 	DockerComposeHealthcheckRaw,
 	DockerComposeServiceRaw,
+	ServiceConfig,
 } from "../../types";
 import { defineDockerService } from "./define-docker-service";
 import { getDefaultPortBindings, resolveHealthcheck } from "./shared";
 
-export type PostgresServiceOptions = {
+export type PostgresServiceOptions<TDatabase extends string = string> = {
 	port?: number;
 	expose?: boolean;
 	healthCheck?: BuiltInHealthCheck | false;
 	serviceName?: string;
+	/** Default database. Default: the first of `databases`, else 'postgres' */
 	database?: string;
+	/** Databases created alongside the default one, each with a `<key>_<database>` URL */
+	databases?: readonly TDatabase[];
+	/** Extensions created in every database (e.g. 'vector', 'pg_trgm') */
+	extensions?: string[];
+	/** SQL or shell scripts (globs relative to the repo root) run when the volume is first initialized */
+	initScripts?: string[];
 	user?: string;
 	password?: string;
 	docker?: DockerComposeServiceRaw;
 };
 
-export const postgresDockerService =
-	defineDockerService<PostgresServiceOptions>({
-		preset: "postgres",
-		defaults: {
-			port: 5432,
-			healthCheck: "pg_isready",
-		},
-		build: ({ serviceKey, config }) => {
-			const user = config.user ?? "postgres";
-			const password = config.password ?? "postgres";
-			const database = config.database ?? "postgres";
-			const defaultHealthcheck: DockerComposeHealthcheckRaw = {
-				test: ["CMD-SHELL", `pg_isready -U ${user}`],
-				interval: "250ms",
-				timeout: "5s",
-				retries: 20,
-			};
-
-			return {
-				service: {
-					image: "pgvector/pgvector:pg16",
-					ports: getDefaultPortBindings(serviceKey, config, "postgres"),
-					volumes: [`${serviceKey}_data:/var/lib/postgresql/data`],
-					environment: {
-						POSTGRES_USER: user,
-						POSTGRES_PASSWORD: password,
-						POSTGRES_DB: database,
-					},
-					healthcheck: resolveHealthcheck(
-						config.healthCheck,
-						defaultHealthcheck,
-						{
-							internalPort: 5432,
-							user,
-						},
-					),
+export type PostgresServiceConfig<TDatabase extends string = string> = Omit<
+	ServiceConfig,
+	"databases"
+> & {
+	databases: readonly TDatabase[];
+	extensions: string[];
+	initScripts: string[];
+};
+
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/;
+const EXTENSION_PATTERN = /^[a-z0-9_-]+$/;
+
+/**
+ * Idempotent SQL that creates the configured databases and extensions, or
+ * null when there is nothing beyond the default database. psql runs it both
+ * from /docker-entrypoint-initdb.d and on every start, so databases added
+ * later also appear in existing volumes.
+ */
+export function getPostgresSetupSql(config: ServiceConfig): string | null {
+	const { databases = [], extensions = [] } =
+		config as Partial<PostgresServiceConfig>;
+	if (databases.length === 0 && extensions.length === 0) return null;
+
+	const primary = config.database ?? "postgres";
+	const lines: string[] = [];
+	for (const database of databases) {
+		if (database === primary) continue;
+		lines.push(
+			`SELECT 'CREATE DATABASE "${database}"' WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = '${database}')\\gexec`,
+		);
+	}
+	if (extensions.length > 0) {
+		for (const database of new Set([primary, ...databases])) {
+			lines.push(`\\connect "${database}"`);
+			for (const extension of extensions) {
+				lines.push(`CREATE EXTENSION IF NOT EXISTS "${extension}";`);
+			}
+		}
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Shared prelude: the user and the default database from positional args (the
+ * remaining ones are all configured databases) and a temporary directory that
+ * is always removed.
+ */
+const POSTGRES_SNAPSHOT_PRELUDE = `set -e
+user=$1 primary=$2
+shift
+dir=$(mktemp -d)
+trap 'rm -rf "$dir"' EXIT`;
+
+/**
+ * One pg_dump (custom format) per database, streamed to stdout as a tar archive.
+ * Arguments: $1 user, then the databases with the default one first.
+ */
+const POSTGRES_SNAPSHOT_SAVE = `${POSTGRES_SNAPSHOT_PRELUDE}
+for db in "$@"; do
+  pg_dump -U "$user" -d "$db" -Fc --no-owner -f "$dir/$db.dump"
+done
+tar -C "$dir" -cf - .`;
+
+/**
+ * Restores every database of a POSTGRES_SNAPSHOT_SAVE archive read from stdin,
+ * creating databases that no longer exist. Databases configured after the
+ * snapshot was taken are left as they are.
+ */
+const POSTGRES_SNAPSHOT_RESTORE = `${POSTGRES_SNAPSHOT_PRELUDE}
+tar -C "$dir" -xf -
+for db in "$@"; do
+  [ -f "$dir/$db.dump" ] || continue
+  psql -U "$user" -d "$primary" -tAc "SELECT 1 FROM pg_database WHERE datname = '$db'" | grep -q 1 ||
+    createdb -U "$user" "$db"
+  pg_restore -U "$user" -d "$db" --clean --if-exists --no-owner --single-transaction "$dir/$db.dump"
+done`;
+
+export const postgresDockerService = defineDockerService<
+	PostgresServiceOptions,
+	PostgresServiceConfig
+>({
+	preset: "postgres",
+	defaults: {
+		port: 5432,
+		healthCheck: "pg_isready",
+	},
+	shell: (config) => [
+		"psql",
+		"-U",
+		config.user ?? "postgres",
+		"-d",
+		config.database ?? "postgres",
+	],
+	snapshot: (config) => {
+		const { databases = [] } = config as Partial<PostgresServiceConfig>;
+		const args = [
+			config.user ?? "postgres",
+			...new Set([config.database ?? "postgres", ...databases]),
+		];
+		return {
+			extension: "tar",
+			save: ["sh", "-c", POSTGRES_SNAPSHOT_SAVE, "sh", ...args],
+			restore: ["sh", "-c", POSTGRES_SNAPSHOT_RESTORE, "sh", ...args],
+		};
+	},
+	provision: (config) => {
+		const sql = getPostgresSetupSql(config);
+		if (!sql) return null;
+		return [
+			"sh",
+			"-c",
+			'printf "%s" "$1" | psql -v ON_ERROR_STOP=1 -q -U "$2" -d "$3" >/dev/null',
+			"sh",
+			sql,
+			config.user ?? "postgres",
+			config.database ?? "postgres",
+		];
+	},
+	enhanceServiceConfig: (base, options): PostgresServiceConfig => {
+		const databases = options.databases ?? [];
+		const extensions = options.extensions ?? [];
+		for (const database of databases) {
+			if (!IDENTIFIER_PATTERN.test(database)) {
+				throw new Error(
+					`Invalid Postgres database name "${database}". Use lowercase letters, digits and "_".`,
+				);
+			}
+		}
+		for (const extension of extensions) {
+			if (!EXTENSION_PATTERN.test(extension)) {
+				throw new Error(`Invalid Postgres extension name "${extension}"`);
+			}
+		}
+		return {
+			...base,
+			database: options.database ?? databases[0],
+			databases,
+			extensions,
+			initScripts: options.initScripts ?? [],
+		};
+	},
+	build: ({ serviceKey, config, root }) => {
+		const user = config.user ?? "postgres";
+		const password = config.password ?? "postgres";
+		const database = config.database ?? "postgres";
+		const { initScripts = [] } = config as Partial<PostgresServiceConfig>;
+		const setupSql = getPostgresSetupSql(config);
+		const setupFile = `initdb/${serviceKey}.sql`;
+		// Scripts run in name order: generated setup first, then initScripts
+		const scripts = [
+			...new Set(
+				initScripts.flatMap((pattern) =>
+					fg.sync(pattern, { cwd: root, absolute: true }).sort(),
+				),
+			),
+		];
+		const volumes = [
+			`${serviceKey}_data:/var/lib/postgresql/data`,
+			...(setupSql
+				? [`./${setupFile}:/docker-entrypoint-initdb.d/00-buncargo.sql:ro`]
+				: []),
+			...scripts.map(
+				(script, index) =>
+					`${script}:/docker-entrypoint-initdb.d/${String(index + 1).padStart(2, "0")}-${basename(script)}:ro`,
+			),
+		];
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: ["CMD-SHELL", `pg_isready -U ${user}`],
+			interval: "250ms",
+			timeout: "5s",
+			retries: 20,
+		};
+
+		return {
+			service: {
+				image: "pgvector/pgvector:pg16",
+				ports: getDefaultPortBindings(serviceKey, config, "postgres"),
+				volumes,
+				environment: {
+					POSTGRES_USER: user,
+					POSTGRES_PASSWORD: password,
+					POSTGRES_DB: database,
 				},
-				volume: `${serviceKey}_data`,
-			};
-		},
-	});
+				healthcheck: resolveHealthcheck(
+					config.healthCheck,
+					defaultHealthcheck,
+					{
+						internalPort: 5432,
+						user,
+					},
+				),
+			},
+			volume: `${serviceKey}_data`,
+			...(setupSql ? { files: { [setupFile]: setupSql } } : {}),
+		};
+	},
+});
@@ -0,0 +1,128 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import { getDefaultPortBindings, resolveHealthcheck } from "./shared";
+
+export type RabbitmqExchangeType = "direct" | "fanout" | "topic" | "headers";
+
+export type RabbitmqServiceOptions = {
+	port?: number;
+	/** Management UI port. Default: 15672 */
+	secondaryPort?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	serviceName?: string;
+	/** Default: 'guest' */
+	user?: string;
+	/** Default: 'guest' */
+	password?: string;
+	/** Durable queues declared on start (a string is a durable queue) */
+	queues?: (string | { name: string; durable?: boolean })[];
+	/** Durable exchanges declared on start (a string is a topic exchange) */
+	exchanges?: (string | { name: string; type?: RabbitmqExchangeType })[];
+	docker?: DockerComposeServiceRaw;
+};
+
+export type RabbitmqServiceConfig = ServiceConfig & {
+	secondaryPort: number;
+	queues: { name: string; durable: boolean }[];
+	exchanges: { name: string; type: RabbitmqExchangeType }[];
+};
+
+/**
+ * Declares exchanges and queues (idempotent for unchanged properties).
+ * Arguments: $1 user, $2 password, then `exchange:<type>:<name>` and
+ * `queue:<durable>:<name>`.
+ */
+const RABBITMQ_PROVISION_SCRIPT = `set -e
+user=$1 password=$2
+shift 2
+for arg; do
+  kind=\${arg%%:*} rest=\${arg#*:}
+  option=\${rest%%:*} name=\${rest#*:}
+  case "$kind" in
+    exchange) rabbitmqadmin -u "$user" -p "$password" declare exchange name="$name" type="$option" durable=true >/dev/null ;;
+    queue) rabbitmqadmin -u "$user" -p "$password" declare queue name="$name" durable="$option" >/dev/null ;;
+  esac
+done`;
+
+export const rabbitmqDockerService = defineDockerService<
+	RabbitmqServiceOptions,
+	RabbitmqServiceConfig
+>({
+	preset: "rabbitmq",
+	defaults: {
+		port: 5672,
+		secondaryPort: 15672,
+		healthCheck: "tcp",
+	},
+	provision: (config) => {
+		const { queues = [], exchanges = [] } =
+			config as Partial<RabbitmqServiceConfig>;
+		if (queues.length === 0 && exchanges.length === 0) return null;
+		return [
+			"sh",
+			"-c",
+			RABBITMQ_PROVISION_SCRIPT,
+			"sh",
+			config.user ?? "guest",
+			config.password ?? "guest",
+			...exchanges.map(({ name, type }) => `exchange:${type}:${name}`),
+			...queues.map(({ name, durable }) => `queue:${durable}:${name}`),
+		];
+	},
+	enhanceServiceConfig: (base, options): RabbitmqServiceConfig => {
+		const user = options.user ?? "guest";
+		const password = options.password ?? "guest";
+		return {
+			...base,
+			secondaryPort: options.secondaryPort ?? 15672,
+			urlTemplate: ({ host, port }) =>
+				`amqp://${user}:${password}@${host}:${port}`,
+			queues: (options.queues ?? []).map((queue) =>
+				typeof queue === "string"
+					? { name: queue, durable: true }
+					: { name: queue.name, durable: queue.durable ?? true },
+			),
+			exchanges: (options.exchanges ?? []).map((exchange) =>
+				typeof exchange === "string"
+					? { name: exchange, type: "topic" }
+					: { name: exchange.name, type: exchange.type ?? "topic" },
+			),
+		};
+	},
+	build: ({ serviceKey, config }) => {
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: ["CMD", "rabbitmq-diagnostics", "-q", "ping"],
+			interval: "1s",
+			timeout: "5s",
+			retries: 60,
+		};
+
+		return {
+			service: {
+				image: "rabbitmq:3-management-alpine",
+				// The data directory is keyed by node name, which follows the hostname
+				hostname: serviceKey,
+				ports: getDefaultPortBindings(serviceKey, config, "rabbitmq"),
+				volumes: [`${serviceKey}_data:/var/lib/rabbitmq`],
+				environment: {
+					RABBITMQ_DEFAULT_USER: config.user ?? "guest",
+					RABBITMQ_DEFAULT_PASS: config.password ?? "guest",
+				},
+				healthcheck: resolveHealthcheck(
+					config.healthCheck,
+					defaultHealthcheck,
+					{
+						internalPort: 15672,
+					},
+				),
+			},
+			volume: `${serviceKey}_data`,
+		};
+	},
+});
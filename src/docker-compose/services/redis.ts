@@ -23,6 +23,7 @@ export const redisDockerService = defineDockerService<RedisServiceOptions>({
 		port: 6379,
 		healthCheck: "redis-cli",
 	},
+	shell: () => ["redis-cli"],
 	build: ({ serviceKey, config }) => {
 		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
 			test: ["CMD", "redis-cli", "ping"],
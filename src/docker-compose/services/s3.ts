@@ -0,0 +1,136 @@
+import type {
+	BuiltInHealthCheck,
+	DockerComposeHealthcheckRaw,
+	DockerComposeServiceRaw,
+	ServiceConfig,
+} from "../../types";
+import { defineDockerService } from "./define-docker-service";
+import { getDefaultPortBindings, resolveHealthcheck } from "./shared";
+
+export type S3ServiceOptions = {
+	port?: number;
+	/** MinIO web console port. Default: 9001 */
+	secondaryPort?: number;
+	expose?: boolean;
+	healthCheck?: BuiltInHealthCheck | false;
+	serviceName?: string;
+	/** Access key. Default: 'minioadmin' */
+	user?: string;
+	/** Secret key. Default: 'minioadmin' */
+	password?: string;
+	/** Buckets created on start if missing */
+	buckets?: string[];
+	/** Buckets that allow anonymous downloads (created as well) */
+	publicRead?: string[];
+	docker?: DockerComposeServiceRaw;
+};
+
+export type S3ServiceConfig = ServiceConfig & {
+	secondaryPort: number;
+	buckets: string[];
+	publicRead: string[];
+};
+
+const BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+
+/**
+ * Creates missing buckets and makes `public:<bucket>` arguments anonymously
+ * readable. Arguments: $1 access key, $2 secret key, then buckets.
+ */
+const S3_PROVISION_SCRIPT = `set -e
+mc alias set local http://127.0.0.1:9000 "$1" "$2" >/dev/null
+shift 2
+for arg; do
+  case "$arg" in
+    public:*) mc anonymous set download "local/\${arg#public:}" >/dev/null ;;
+    *) mc mb --ignore-existing "local/$arg" >/dev/null ;;
+  esac
+done`;
+
+export const s3DockerService = defineDockerService<
+	S3ServiceOptions,
+	S3ServiceConfig
+>({
+	preset: "s3",
+	defaults: {
+		port: 9000,
+		secondaryPort: 9001,
+		healthCheck: "tcp",
+	},
+	shell: (config) => [
+		"sh",
+		"-c",
+		'mc alias set local http://127.0.0.1:9000 "$1" "$2" >/dev/null && exec sh',
+		"sh",
+		config.user ?? "minioadmin",
+		config.password ?? "minioadmin",
+	],
+	provision: (config) => {
+		const { buckets = [], publicRead = [] } =
+			config as Partial<S3ServiceConfig>;
+		if (buckets.length === 0 && publicRead.length === 0) return null;
+		return [
+			"sh",
+			"-c",
+			S3_PROVISION_SCRIPT,
+			"sh",
+			config.user ?? "minioadmin",
+			config.password ?? "minioadmin",
+			...new Set([...buckets, ...publicRead]),
+			...publicRead.map((bucket) => `public:${bucket}`),
+		];
+	},
+	envPrefix: "S3",
+	env: ({ prefix, url, config }) => ({
+		[`${prefix}_ENDPOINT`]: url,
+		[`${prefix}_ACCESS_KEY`]: config.user ?? "minioadmin",
+		[`${prefix}_SECRET_KEY`]: config.password ?? "minioadmin",
+	}),
+	enhanceServiceConfig: (base, options): S3ServiceConfig => {
+		const buckets = options.buckets ?? [];
+		const publicRead = options.publicRead ?? [];
+		for (const bucket of [...buckets, ...publicRead]) {
+			if (!BUCKET_NAME_PATTERN.test(bucket)) {
+				throw new Error(
+					`Invalid S3 bucket name "${bucket}". Use 3-63 lowercase letters, digits, "." and "-".`,
+				);
+			}
+		}
+		return {
+			...base,
+			secondaryPort: options.secondaryPort ?? 9001,
+			urlTemplate: ({ host, port }) => `http://${host}:${port}`,
+			buckets,
+			publicRead,
+		};
+	},
+	build: ({ serviceKey, config }) => {
+		const defaultHealthcheck: DockerComposeHealthcheckRaw = {
+			test: ["CMD", "mc", "ready", "local"],
+			interval: "1s",
+			timeout: "5s",
+			retries: 30,
+		};
+
+		return {
+			service: {
+				image: "minio/minio:latest",
+				command: ["server", "/data", "--console-address", ":9001"],
+				ports: getDefaultPortBindings(serviceKey, config, "s3"),
+				volumes: [`${serviceKey}_data:/data`],
+				environment: {
+					MINIO_ROOT_USER: config.user ?? "minioadmin",
+					MINIO_ROOT_PASSWORD: config.password ?? "minioadmin",
+				},
+				healthcheck: resolveHealthcheck(
+					config.healthCheck,
+					defaultHealthcheck,
+					{
+						internalPort: 9000,
+					},
+				),
+			},
+			volume: `${serviceKey}_data`,
+		};
+	},
+});
@@ -2,6 +2,7 @@ import type {
 	DockerComposeHealthcheckRaw,
 	DockerPresetName,
 	ServiceConfig,
+	ServicePresetName,
 } from "../../types";
 
 const DEFAULT_HEALTHCHECK_SETTINGS = {
@@ -10,6 +11,74 @@ const DEFAULT_HEALTHCHECK_SETTINGS = {
 	retries: 20,
 } as const;
 
+/** Port each preset's image listens on inside the container */
+const PRESET_INTERNAL_PORTS: Record<DockerPresetName, number> = {
+	postgres: 5432,
+	redis: 6379,
+	clickhouse: 8123,
+	mysql: 3306,
+	mariadb: 3306,
+	mongodb: 27017,
+	s3: 9000,
+	mail: 1025,
+	rabbitmq: 5672,
+	kafka: 9092,
+	meilisearch: 7700,
+	opensearch: 9200,
+};
+
+const PRESET_SECONDARY_INTERNAL_PORTS: Partial<
+	Record<DockerPresetName, number>
+> = {
+	clickhouse: 9000,
+	s3: 9001,
+	mail: 8025,
+	rabbitmq: 15672,
+	kafka: 9644,
+};
+
+/** Container ports of presets added with registerServicePreset */
+const registeredInternalPorts = new Map<
+	string,
+	{ port: number; secondaryPort?: number }
+>();
+
+export function setRegisteredInternalPorts(
+	preset: string,
+	ports: { port: number; secondaryPort?: number },
+): void {
+	registeredInternalPorts.set(preset, ports);
+}
+
+export function deleteRegisteredInternalPorts(preset: string): void {
+	registeredInternalPorts.delete(preset);
+}
+
+function getInternalPorts(preset: ServicePresetName): {
+	port?: number;
+	secondaryPort?: number;
+} {
+	if (Object.hasOwn(PRESET_INTERNAL_PORTS, preset)) {
+		return {
+			port: PRESET_INTERNAL_PORTS[preset as DockerPresetName],
+			secondaryPort:
+				PRESET_SECONDARY_INTERNAL_PORTS[preset as DockerPresetName],
+		};
+	}
+	return registeredInternalPorts.get(preset) ?? {};
+}
+
+/**
+ * Liveness probe run inside mysql/mariadb containers. MariaDB 11 images only
+ * ship `mariadb-admin`, MySQL images only `mysqladmin`. TCP skips the
+ * socket-only server the entrypoint runs during initialization.
+ */
+export const MYSQL_PING_COMMAND =
+	"mariadb-admin ping -h 127.0.0.1 --silent 2>/dev/null || mysqladmin ping -h 127.0.0.1 --silent";
+
+/** mongosh expression that exits 0 once the node accepts writes */
+export const MONGO_PRIMARY_CHECK = "quit(db.hello().isWritablePrimary ? 0 : 1)";
+
 export function getPortEnvName(portKey: string): string {
 	return `${portKey.toUpperCase()}_PORT`;
 }
@@ -17,26 +86,19 @@ export function getPortEnvName(portKey: string): string {
 export function getDefaultPortBindings(
 	serviceKey: string,
 	config: ServiceConfig,
-	preset?: DockerPresetName,
+	preset?: ServicePresetName,
 ): string[] {
 	const envName = getPortEnvName(serviceKey);
 	const bindings: string[] = [];
+	const internal = preset ? getInternalPorts(preset) : {};
 
-	const defaultInternalPort =
-		preset === "postgres"
-			? 5432
-			: preset === "redis"
-				? 6379
-				: preset === "clickhouse"
-					? 8123
-					: config.port;
+	const defaultInternalPort = internal.port ?? config.port;
 
 	bindings.push(`\${${envName}:-${config.port}}:${defaultInternalPort}`);
 
 	if (config.secondaryPort !== undefined) {
 		const secondaryEnv = getPortEnvName(`${serviceKey}Secondary`);
-		const secondaryInternal =
-			preset === "clickhouse" ? 9000 : config.secondaryPort;
+		const secondaryInternal = internal.secondaryPort ?? config.secondaryPort;
 		bindings.push(
 			`\${${secondaryEnv}:-${config.secondaryPort}}:${secondaryInternal}`,
 		);
@@ -48,7 +110,7 @@ export function getDefaultPortBindings(
 export function resolveHealthcheck(
 	healthCheck: ServiceConfig["healthCheck"] | undefined,
 	fallback: DockerComposeHealthcheckRaw | undefined,
-	options: { internalPort: number; user?: string },
+	options: { internalPort: number; user?: string; healthPath?: string },
 ): DockerComposeHealthcheckRaw | undefined {
 	if (healthCheck === false) return undefined;
 	if (typeof healthCheck === "function") return fallback;
@@ -65,14 +127,27 @@ export function resolveHealthcheck(
 				test: ["CMD", "redis-cli", "ping"],
 				...DEFAULT_HEALTHCHECK_SETTINGS,
 			};
-		case "http":
+		case "mysqladmin":
+			return {
+				test: ["CMD-SHELL", MYSQL_PING_COMMAND],
+				...DEFAULT_HEALTHCHECK_SETTINGS,
+			};
+		case "mongosh":
+			return {
+				test: ["CMD", "mongosh", "--quiet", "--eval", MONGO_PRIMARY_CHECK],
+				...DEFAULT_HEALTHCHECK_SETTINGS,
+			};
+		case "http": {
+			// Images ship curl or busybox wget, rarely both
+			const url = `http://127.0.0.1:${options.internalPort}${options.healthPath ?? "/ping"}`;
 			return {
 				test: [
 					"CMD-SHELL",
-					`wget -qO- http://127.0.0.1:${options.internalPort}/ping || exit 1`,
+					`curl -fsS '${url}' >/dev/null 2>&1 || wget -qO- '${url}' >/dev/null || exit 1`,
 				],
 				...DEFAULT_HEALTHCHECK_SETTINGS,
 			};
+		}
 		default:
 			return fallback;
 	}
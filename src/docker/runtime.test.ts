@@ -1,5 +1,10 @@
 import { describe, expect, it } from "bun:test";
-import { getComposeArg } from "./runtime";
+import {
+	createBuiltInHealthCheck,
+	createLogLineFilter,
+	getComposeArg,
+	parseContainerStatusLine,
+} from "./runtime";
 
 describe("getComposeArg", () => {
 	it("returns empty string when compose file is not provided", () => {
@@ -12,3 +17,98 @@ describe("getComposeArg", () => {
 		);
 	});
 });
+
+describe("createLogLineFilter", () => {
+	it("matches every line with a global or sticky RegExp", () => {
+		for (const grep of [/error/g, /error/y, /error/gi]) {
+			const matches = createLogLineFilter(grep);
+			const lines = ["error one", "error two", "error three"];
+			expect(lines.filter((line) => matches?.(line))).toEqual(lines);
+		}
+	});
+
+	it("compiles string patterns and passes everything without one", () => {
+		expect(createLogLineFilter("^WARN")?.("WARN disk")).toBe(true);
+		expect(createLogLineFilter("^WARN")?.("INFO WARN")).toBe(false);
+		expect(createLogLineFilter(undefined)).toBeUndefined();
+	});
+});
+
+describe("parseContainerStatusLine", () => {
+	it("parses running container with healthy status", () => {
+		expect(
+			parseContainerStatusLine("postgres\trunning\tUp 2 minutes (healthy)"),
+		).toEqual({
+			service: "postgres",
+			state: "running",
+			health: "healthy",
+			uptime: "2 minutes",
+		});
+	});
+
+	it("detects starting and unhealthy containers", () => {
+		expect(
+			parseContainerStatusLine(
+				"redis\trunning\tUp 3 seconds (health: starting)",
+			)?.health,
+		).toBe("starting");
+		expect(
+			parseContainerStatusLine("redis\trunning\tUp 5 minutes (unhealthy)")
+				?.health,
+		).toBe("unhealthy");
+	});
+
+	it("reports none when container has no healthcheck", () => {
+		expect(
+			parseContainerStatusLine("nats\texited\tExited (1) 4 minutes ago"),
+		).toEqual({
+			service: "nats",
+			state: "exited",
+			health: "none",
+			uptime: null,
+		});
+	});
+
+	it("extracts uptime from the status text", () => {
+		expect(
+			parseContainerStatusLine("redis\trunning\tUp About an hour")?.uptime,
+		).toBe("About an hour");
+		expect(
+			parseContainerStatusLine(
+				"redis\trunning\tUp 3 seconds (health: starting)",
+			)?.uptime,
+		).toBe("3 seconds");
+	});
+
+	it("returns null for empty lines", () => {
+		expect(parseContainerStatusLine("")).toBeNull();
+	});
+});
+
+describe("createBuiltInHealthCheck", () => {
+	it("probes the configured health path for http checks", async () => {
+		let healthy = false;
+		const server = Bun.serve({
+			port: 0,
+			fetch: (request) =>
+				new URL(request.url).pathname === "/health" && healthy
+					? new Response("ok")
+					: new Response("nope", { status: 404 }),
+		});
+
+		try {
+			const port = server.port ?? 0;
+			const root = createBuiltInHealthCheck("http", "api");
+			const health = createBuiltInHealthCheck("http", "search", {
+				healthPath: "/health",
+			});
+
+			expect(await root(port)).toBe(true);
+			expect(await health(port)).toBe(false);
+			healthy = true;
+			expect(await health(port)).toBe(true);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -1,8 +1,20 @@
-import { execSync } from "node:child_process";
+import { type ChildProcess, execSync, spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { execAsync } from "../core/process";
 import { sleep } from "../core/utils";
+import {
+	MONGO_PRIMARY_CHECK,
+	MYSQL_PING_COMMAND,
+} from "../docker-compose/services/shared";
 import type {
 	BuiltInHealthCheck,
+	ContainerLogLine,
+	ContainerState,
 	HealthCheckFn,
+	HealthStatus,
+	LogsOptions,
 	ServiceConfig,
 } from "../types";
 
@@ -81,6 +93,98 @@ export async function areContainersRunning(
 	}
 }
 
+export interface ContainerStatus {
+	state: ContainerState;
+	health: HealthStatus;
+	/** How long the container has been up, as reported by Docker (e.g. "2 minutes") */
+	uptime: string | null;
+}
+
+const CONTAINER_STATES: ContainerState[] = [
+	"running",
+	"created",
+	"restarting",
+	"paused",
+	"exited",
+	"removing",
+	"dead",
+];
+
+/**
+ * Parse one line of `docker ps --format '{{.Label "com.docker.compose.service"}}\t{{.State}}\t{{.Status}}'`.
+ * Health is derived from the status text, e.g. "Up 2 minutes (healthy)".
+ */
+export function parseContainerStatusLine(
+	line: string,
+): ({ service: string } & ContainerStatus) | null {
+	const [service, rawState, statusText = ""] = line.split("\t");
+	if (!service || !rawState) return null;
+
+	const state = CONTAINER_STATES.includes(rawState as ContainerState)
+		? (rawState as ContainerState)
+		: "missing";
+
+	let health: HealthStatus = "none";
+	if (statusText.includes("(healthy)")) {
+		health = "healthy";
+	} else if (statusText.includes("(unhealthy)")) {
+		health = "unhealthy";
+	} else if (statusText.includes("(health: starting)")) {
+		health = "starting";
+	}
+
+	const uptime = statusText.match(/^Up (.+?)(?: \(.*\))?$/)?.[1] ?? null;
+
+	return { service, state, health, uptime };
+}
+
+/**
+ * Get container state and health for every compose service of a project.
+ * Keyed by Docker Compose service name. Services without a container are absent.
+ */
+export async function getContainerStatuses(
+	project: string,
+): Promise<Record<string, ContainerStatus>> {
+	// Async so periodic probes (dashboard) do not block the event loop
+	const result = await execAsync(
+		`docker ps -a --filter "label=com.docker.compose.project=${project}" --format '{{.Label "com.docker.compose.service"}}\t{{.State}}\t{{.Status}}'`,
+		process.cwd(),
+		{},
+	);
+	if (result.exitCode !== 0) return {};
+	const statuses: Record<string, ContainerStatus> = {};
+	for (const line of result.stdout.trim().split("\n")) {
+		const parsed = parseContainerStatusLine(line);
+		if (!parsed) continue;
+		const { service, ...status } = parsed;
+		statuses[service] = status;
+	}
+	return statuses;
+}
+
+/**
+ * Get the container ID of every compose service of a project (running or not).
+ * Keyed by Docker Compose service name. IDs change whenever a container is recreated.
+ */
+export async function getContainerIds(
+	project: string,
+): Promise<Record<string, string>> {
+	try {
+		const result = execSync(
+			`docker ps -a --no-trunc --filter "label=com.docker.compose.project=${project}" --format '{{.Label "com.docker.compose.service"}}\t{{.ID}}'`,
+			{ encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] },
+		);
+		const ids: Record<string, string> = {};
+		for (const line of result.trim().split("\n")) {
+			const [service, id] = line.split("\t");
+			if (service && id) ids[service] = id;
+		}
+		return ids;
+	} catch {
+		return {};
+	}
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Container Lifecycle
 // ═══════════════════════════════════════════════════════════════════════════
@@ -188,6 +292,250 @@ export function startService(
 	});
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Container Exec
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ExecInContainerOptions {
+	/** Attach a TTY for interactive clients. Default: true when stdin is a TTY */
+	interactive?: boolean;
+	/** Extra environment variables for the command inside the container */
+	env?: Record<string, string>;
+	composeFile?: string;
+}
+
+/**
+ * Run a command inside a running service container with inherited stdio.
+ * Resolves with the command's exit code.
+ */
+export function execInContainer(
+	root: string,
+	projectName: string,
+	service: string,
+	command: string[],
+	options: ExecInContainerOptions = {},
+): Promise<number> {
+	const {
+		interactive = process.stdin.isTTY === true,
+		env = {},
+		composeFile,
+	} = options;
+	assertDockerRunning();
+
+	const args = [
+		"compose",
+		...(composeFile ? ["-f", composeFile] : []),
+		"exec",
+		...(interactive ? [] : ["-T"]),
+		...Object.entries(env).flatMap(([key, value]) => ["-e", `${key}=${value}`]),
+		service,
+		...command,
+	];
+
+	return new Promise((resolve, reject) => {
+		const proc = spawn("docker", args, {
+			cwd: root,
+			env: { ...process.env, COMPOSE_PROJECT_NAME: projectName },
+			stdio: "inherit",
+		});
+		proc.on("error", reject);
+		proc.on("exit", (code) => resolve(code ?? 1));
+	});
+}
+
+export interface PipeContainerCommandOptions {
+	/** Streamed into the command's stdin */
+	input?: Readable;
+	/** Receives the command's stdout */
+	output?: Writable;
+	composeFile?: string;
+}
+
+/**
+ * Run a non-interactive command inside a running service container, streaming
+ * data through stdin/stdout. Rejects with the command's stderr if it fails.
+ */
+export async function pipeContainerCommand(
+	root: string,
+	projectName: string,
+	service: string,
+	command: string[],
+	options: PipeContainerCommandOptions = {},
+): Promise<void> {
+	const { input, output, composeFile } = options;
+	assertDockerRunning();
+
+	const proc = spawn(
+		"docker",
+		[
+			"compose",
+			...(composeFile ? ["-f", composeFile] : []),
+			"exec",
+			"-T",
+			service,
+			...command,
+		],
+		{
+			cwd: root,
+			env: { ...process.env, COMPOSE_PROJECT_NAME: projectName },
+			stdio: [input ? "pipe" : "ignore", output ? "pipe" : "ignore", "pipe"],
+		},
+	);
+
+	let stderr = "";
+	proc.stderr?.on("data", (chunk: Buffer) => {
+		stderr += chunk.toString();
+	});
+
+	const exited = new Promise<number>((resolve, reject) => {
+		proc.on("error", reject);
+		proc.on("close", (code) => resolve(code ?? 1));
+	});
+	// Stream errors (e.g. EPIPE when the command exits early) are only
+	// reported if the command itself succeeded
+	const results = await Promise.allSettled([
+		input && proc.stdin ? pipeline(input, proc.stdin) : undefined,
+		output && proc.stdout ? pipeline(proc.stdout, output) : undefined,
+	]);
+	const code = await exited;
+
+	if (code !== 0) {
+		throw new Error(
+			`"${command[0]}" failed in ${service} (exit ${code})${stderr.trim() ? `:\n${stderr.trim()}` : ""}`,
+		);
+	}
+	for (const result of results) {
+		if (result.status === "rejected") throw result.reason;
+	}
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Container Logs
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ContainerLogsOptions extends LogsOptions {
+	composeFile?: string;
+}
+
+/**
+ * Spawn `docker compose logs` for a single service without the log prefix.
+ */
+function spawnContainerLogs(
+	root: string,
+	projectName: string,
+	service: string,
+	options: ContainerLogsOptions,
+): ChildProcess {
+	const { follow = false, since, tail, composeFile } = options;
+	const args = [
+		"compose",
+		...(composeFile ? ["-f", composeFile] : []),
+		"logs",
+		"--no-color",
+		"--no-log-prefix",
+		...(follow ? ["--follow"] : []),
+		...(since ? ["--since", since] : []),
+		...(tail !== undefined ? ["--tail", String(tail)] : []),
+		service,
+	];
+
+	return spawn("docker", args, {
+		cwd: root,
+		env: { ...process.env, COMPOSE_PROJECT_NAME: projectName },
+		stdio: ["ignore", "pipe", "pipe"],
+	});
+}
+
+/**
+ * Line filter for `logs --grep`. The `g` and `y` flags are dropped: they make
+ * test() stateful (lastIndex), which would skip matching lines.
+ */
+export function createLogLineFilter(
+	grep: string | RegExp | undefined,
+): ((line: string) => boolean) | undefined {
+	if (grep === undefined) return undefined;
+	const pattern =
+		typeof grep === "string"
+			? new RegExp(grep)
+			: new RegExp(grep.source, grep.flags.replace(/[gy]/g, ""));
+	return (line) => pattern.test(line);
+}
+
+/**
+ * Stream log lines of the given compose services, merged in arrival order.
+ * Ends when every `docker compose logs` process exits, or when options.signal aborts.
+ */
+export async function* streamContainerLogs(
+	root: string,
+	projectName: string,
+	services: string[],
+	options: ContainerLogsOptions = {},
+): AsyncGenerator<ContainerLogLine> {
+	const { grep, signal } = options;
+	if (services.length === 0 || signal?.aborted) return;
+	assertDockerRunning();
+
+	const matches = createLogLineFilter(grep);
+	const queue: ContainerLogLine[] = [];
+	let open = services.length;
+	let failure: Error | null = null;
+	let notify: (() => void) | null = null;
+	const wake = () => {
+		notify?.();
+		notify = null;
+	};
+
+	const procs = services.map((service) => {
+		const proc = spawnContainerLogs(root, projectName, service, options);
+		for (const stream of ["stdout", "stderr"] as const) {
+			const input = proc[stream];
+			if (!input) continue;
+			createInterface({ input }).on("line", (line) => {
+				if (matches && !matches(line)) return;
+				queue.push({ service, line, stream });
+				wake();
+			});
+		}
+		proc.on("close", () => {
+			open--;
+			wake();
+		});
+		// e.g. docker missing from PATH: end the iterator with the error
+		proc.on("error", (error) => {
+			failure = new Error(
+				`Could not read logs of ${service}: ${error.message}`,
+			);
+			wake();
+		});
+		return proc;
+	});
+
+	const abort = () => {
+		for (const proc of procs) proc.kill();
+	};
+	signal?.addEventListener("abort", abort, { once: true });
+
+	try {
+		while (true) {
+			if (failure) throw failure;
+			const next = queue.shift();
+			if (next) {
+				yield next;
+				continue;
+			}
+			if (open === 0) return;
+			await new Promise<void>((resolve) => {
+				notify = resolve;
+			});
+		}
+	} finally {
+		signal?.removeEventListener("abort", abort);
+		for (const proc of procs) {
+			if (proc.exitCode === null && proc.signalCode === null) proc.kill();
+		}
+	}
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Built-in Health Checks
 // ═══════════════════════════════════════════════════════════════════════════
@@ -195,6 +543,8 @@ export function startService(
 export interface HealthCheckContext {
 	projectName?: string;
 	root?: string;
+	/** Path probed by the `http` check. Default: "/" (where a 404 also passes) */
+	healthPath?: string;
 }
 
 /**
@@ -205,7 +555,7 @@ export function createBuiltInHealthCheck(
 	serviceName: string,
 	context: HealthCheckContext = {},
 ): HealthCheckFn {
-	const { projectName, root } = context;
+	const { projectName, root, healthPath } = context;
 
 	switch (type) {
 		case "pg_isready":
@@ -242,17 +592,55 @@ export function createBuiltInHealthCheck(
 				}
 			};
 
+		case "mysqladmin":
+			return async () => {
+				try {
+					const projectArg = projectName ? `-p ${projectName}` : "";
+					execSync(
+						`docker compose ${projectArg} exec -T ${serviceName} sh -c '${MYSQL_PING_COMMAND}'`,
+						{
+							cwd: root,
+							stdio: ["pipe", "pipe", "pipe"],
+						},
+					);
+					return true;
+				} catch {
+					return false;
+				}
+			};
+
+		case "mongosh":
+			return async () => {
+				try {
+					const projectArg = projectName ? `-p ${projectName}` : "";
+					execSync(
+						`docker compose ${projectArg} exec -T ${serviceName} mongosh --quiet --eval "${MONGO_PRIMARY_CHECK}"`,
+						{
+							cwd: root,
+							stdio: ["pipe", "pipe", "pipe"],
+						},
+					);
+					return true;
+				} catch {
+					return false;
+				}
+			};
+
 		case "http":
 			return async (port) => {
 				try {
 					const controller = new AbortController();
 					const timeoutId = setTimeout(() => controller.abort(), 2000);
 					try {
-						const response = await fetch(`http://localhost:${port}/`, {
-							signal: controller.signal as RequestInit["signal"],
-						});
+						const response = await fetch(
+							`http://localhost:${port}${healthPath ?? "/"}`,
+							{ signal: controller.signal as RequestInit["signal"] },
+						);
 						clearTimeout(timeoutId);
-						return response.ok || response.status === 404;
+						return (
+							response.ok ||
+							(healthPath === undefined && response.status === 404)
+						);
 					} catch {
 						clearTimeout(timeoutId);
 						return false;
@@ -312,6 +700,8 @@ export async function waitForService(
 		pollInterval?: number;
 		projectName?: string;
 		root?: string;
+		/** Give up (rejecting) once aborted */
+		signal?: AbortSignal;
 	} = {},
 ): Promise<void> {
 	const {
@@ -319,6 +709,7 @@ export async function waitForService(
 		pollInterval = POLL_INTERVAL,
 		projectName,
 		root,
+		signal,
 	} = options;
 
 	// No health check configured - just return
@@ -333,10 +724,13 @@ export async function waitForService(
 			: createBuiltInHealthCheck(
 					config.healthCheck,
 					config.serviceName ?? serviceName,
-					{ projectName, root },
+					{ projectName, root, healthPath: config.healthPath },
 				);
 
 	for (let i = 0; i < maxAttempts; i++) {
+		if (signal?.aborted) {
+			throw new Error(`Stopped waiting for service ${serviceName}`);
+		}
 		const isHealthy = await healthCheckFn(port);
 		if (isHealthy) return;
 		await sleep(pollInterval);
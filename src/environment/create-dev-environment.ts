@@ -1,6 +1,22 @@
+import { relative, resolve } from "node:path";
 import { assertValidConfig } from "../config";
-import { getLocalIp, waitForDevServers, waitForServer } from "../core/network";
 import {
+	getLocalIp,
+	isPortListening,
+	isServerResponding,
+	waitForDevServers,
+	waitForServer,
+} from "../core/network";
+import {
+	choosePortOffset,
+	clearSavedPortOffset,
+	findPortOwner,
+	getPortOffsetFile,
+	isPortBindable,
+	savePortOffset,
+} from "../core/port-allocation";
+import {
+	calculateDefaultPortOffset,
 	computeDevIdentity,
 	computePorts,
 	computeUrls,
@@ -9,9 +25,12 @@ import {
 import {
 	buildApps,
 	execAsync,
+	getProcessOnPortAsync,
 	startDevServers,
 	stopProcess as stopProcessFn,
+	superviseDevServers,
 } from "../core/process";
+import { getClaimedPorts, registerProject } from "../core/registry";
 import { isCI as isCIEnv, logExpoApiUrl, logFrontendPort } from "../core/utils";
 import {
 	spawnWatchdog as spawnWatchdogFn,
@@ -21,31 +40,76 @@ import {
 } from "../core/watchdog";
 import {
 	areContainersRunning,
+	execInContainer,
+	getContainerIds,
+	getContainerStatuses,
+	isContainerRunning,
+	pipeContainerCommand,
 	startContainers,
 	stopContainers,
+	streamContainerLogs,
+	waitForService,
 } from "../docker/runtime";
 import {
 	getGeneratedComposePath,
+	getServiceEnvVars,
+	getServiceProvisionCommand,
+	getServiceShellCommand,
+	registerServicePreset,
+	resolveServicePreset,
 	writeGeneratedComposeFile,
 } from "../docker-compose";
 import { createPrismaRunner } from "../prisma";
+import {
+	createUnresolvedSecrets,
+	redactSecrets,
+	registerSecretValues,
+	resolveSecrets as resolveSecretSources,
+} from "../secrets";
 import type {
 	AppConfig,
 	ComputedPorts,
 	ComputedPublicUrls,
 	ComputedUrls,
+	ContainerLogLine,
 	DevConfig,
 	DevEnvironment,
 	DevServerPids,
+	DevServerSupervisor,
+	EnvIssue,
+	EnvironmentStatus,
 	ExecOptions,
 	HookContext,
+	LogsOptions,
+	MigrationConfig,
 	PrismaRunner,
 	ServiceConfig,
 	StartOptions,
 	StopOptions,
+	SuperviseServersOptions,
+	TargetStatus,
 } from "../types";
+import {
+	filterEnvVars,
+	formatEnvFile,
+	isGitIgnored,
+	omitSecretVars,
+	resolveAppEnvFiles,
+	toEnvStrings,
+	writeEnvFileIfChanged,
+} from "./env-files";
+import { checkEnvTargets, formatEnvIssues } from "./env-schema";
 import { logEnvironmentInfo } from "./logging";
+import { createMailInbox } from "./mail";
+import {
+	createInputCache,
+	getInputsHash,
+	PRISMA_MIGRATION_INPUTS,
+	runMigrations,
+	SEED_CACHE_KEY,
+} from "./migrations";
 import { createCheckTableHelper, createSeedCheckContext } from "./seeding";
+import { createSnapshotManager } from "./snapshots";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Environment Factory
@@ -79,6 +143,9 @@ export function createDevEnvironment<
 ): DevEnvironment<TServices, TApps> {
 	// Validate config
 	assertValidConfig(config);
+	for (const preset of config.presets ?? []) {
+		registerServicePreset(preset);
+	}
 
 	// Compute environment values
 	const root = findMonorepoRoot();
@@ -89,7 +156,8 @@ export function createDevEnvironment<
 		root,
 		worktreeIsolation: config.options?.worktreeIsolation,
 	});
-	const { worktree, projectSuffix, portOffset, projectName } = identity;
+	const { worktree, projectSuffix, projectName } = identity;
+	let portOffset = identity.portOffset;
 	const localIp = getLocalIp();
 
 	const services = config.services;
@@ -121,12 +189,30 @@ export function createDevEnvironment<
 		for (const [key, value] of Object.entries(urlsInput)) {
 			publicUrls[key] = value;
 		}
+		writeEnvFiles();
 	}
 
 	function clearPublicUrls(): void {
 		for (const key of Object.keys(publicUrls)) {
 			delete publicUrls[key];
 		}
+		writeEnvFiles();
+	}
+
+	// Secrets are resolved asynchronously (once per start) and then reused
+	let resolvedSecrets: Record<string, string> | null = null;
+
+	async function resolveSecrets(): Promise<Record<string, string>> {
+		resolvedSecrets = await resolveSecretSources(config.secrets ?? {}, root);
+		registerSecretValues(Object.values(resolvedSecrets));
+		return { ...resolvedSecrets };
+	}
+
+	function getSecrets(): Readonly<Record<string, string>> {
+		return (
+			resolvedSecrets ??
+			createUnresolvedSecrets(Object.keys(config.secrets ?? {}))
+		);
 	}
 
 	// Build environment variables
@@ -148,6 +234,13 @@ export function createDevEnvironment<
 			baseEnv[envName] = url;
 		}
 
+		// Add preset variables (e.g. S3_ENDPOINT, S3_ACCESS_KEY for an s3 service)
+		for (const [name, serviceConfig] of Object.entries(services)) {
+			const url = (urls as Record<string, string>)[name];
+			if (!url) continue;
+			Object.assign(baseEnv, getServiceEnvVars(name, serviceConfig, url));
+		}
+
 		// Add public URL environment variables when tunnels are active
 		for (const [name, url] of Object.entries(publicUrls)) {
 			const envName = `${name.toUpperCase()}_PUBLIC_URL`;
@@ -161,15 +254,120 @@ export function createDevEnvironment<
 				localIp,
 				portOffset,
 				publicUrls: publicUrls as ComputedPublicUrls<TServices, TApps>,
+				secrets: getSecrets(),
 			});
-			for (const [key, value] of Object.entries(userEnv)) {
-				baseEnv[key] = String(value);
-			}
+			Object.assign(baseEnv, toEnvStrings(userEnv));
 		}
 
 		return baseEnv;
 	}
 
+	// Per-app env vars from AppConfig.env, merged over the shared ones
+	function buildAppEnvVars(): Record<string, Record<string, string>> {
+		const appEnvVars: Record<string, Record<string, string>> = {};
+		for (const [name, app] of Object.entries(apps)) {
+			if (!app.env) continue;
+			const appEnv = app.env({
+				name,
+				port: (ports as Record<string, number>)[name] ?? app.port,
+				url: (urls as Record<string, string>)[name] ?? "",
+				publicUrl: publicUrls[name],
+				ports,
+				urls,
+				publicUrls,
+				secrets: getSecrets(),
+				projectName,
+				localIp,
+				portOffset,
+			});
+			appEnvVars[name] = toEnvStrings(appEnv);
+		}
+		return appEnvVars;
+	}
+
+	// Check the env each app process gets against envSchema / AppConfig.envSchema
+	async function checkEnv(
+		options: { production?: boolean } = {},
+	): Promise<EnvIssue[]> {
+		const baseEnv = {
+			...(process.env as Record<string, string>),
+			...buildEnvVars(options.production ?? false),
+		};
+		const appEnvVars = buildAppEnvVars();
+		const targets = Object.entries(apps).map(([name, app]) => ({
+			target: name,
+			vars: { ...baseEnv, ...appEnvVars[name] },
+			schemas: [config.envSchema, app.envSchema].filter((s) => s !== undefined),
+		}));
+		if (targets.length === 0 && config.envSchema) {
+			targets.push({
+				target: "env",
+				vars: baseEnv,
+				schemas: [config.envSchema],
+			});
+		}
+		return checkEnvTargets(targets);
+	}
+
+	async function assertValidEnv(production: boolean): Promise<void> {
+		const issues = await checkEnv({ production });
+		if (issues.length > 0) {
+			throw new Error(
+				`Env vars do not match envSchema:\n${formatEnvIssues(issues)}`,
+			);
+		}
+	}
+
+	// Write env files for tools that read .env themselves. Secrets stay out
+	// of them unless a file opts in, which warns when git would commit it.
+	function writeEnvFileVars(
+		file: string,
+		vars: Record<string, string>,
+		includeSecrets: boolean,
+	): void {
+		const withoutSecrets = omitSecretVars(
+			vars,
+			Object.values(resolvedSecrets ?? {}),
+		);
+		const hasSecrets =
+			Object.keys(withoutSecrets).length < Object.keys(vars).length;
+		const changed = writeEnvFileIfChanged(
+			file,
+			formatEnvFile(includeSecrets ? vars : withoutSecrets, projectName),
+		);
+		if (changed && includeSecrets && hasSecrets && !isGitIgnored(file)) {
+			console.warn(
+				`⚠️  ${relative(root, file)} holds secrets but is not in .gitignore`,
+			);
+		}
+	}
+
+	function writeEnvFile(
+		path: string,
+		keys?: string[],
+		options: { includeSecrets?: boolean } = {},
+	): string {
+		const file = resolve(root, path);
+		writeEnvFileVars(
+			file,
+			filterEnvVars(buildEnvVars(), keys),
+			options.includeSecrets ?? false,
+		);
+		return file;
+	}
+
+	function writeEnvFiles(): string[] {
+		const files = resolveAppEnvFiles(apps, root);
+		if (files.length === 0) return [];
+		const envVars = buildEnvVars();
+		const appEnvVars = buildAppEnvVars();
+		for (const { app, path, keys, includeSecrets } of files) {
+			const vars = { ...envVars, ...appEnvVars[app] };
+			writeEnvFileVars(path, filterEnvVars(vars, keys), includeSecrets);
+		}
+		return files.map(({ path }) => path);
+	}
+
 	// Memoized hook context (created once, reused)
 	let hookContext: HookContext<TServices, TApps> | null = null;
 
@@ -203,6 +401,144 @@ export function createDevEnvironment<
 	// Container Management
 	// ─────────────────────────────────────────────────────────────────────────
 
+	const inputCache = createInputCache(root, projectName);
+
+	/**
+	 * Container ID per service. Recreating a container (e.g. after `--reset`)
+	 * changes its ID and invalidates cached migrations that target it.
+	 */
+	async function getServiceContainerIds(): Promise<Record<
+		string,
+		string
+	> | null> {
+		const ids = await getContainerIds(projectName);
+		const byService: Record<string, string> = {};
+		for (const [name, serviceConfig] of Object.entries(services)) {
+			const id = ids[serviceConfig.serviceName ?? name];
+			if (!id) return null;
+			byService[name] = id;
+		}
+		return byService;
+	}
+
+	function getMailApiUrl(): string {
+		const mailService = Object.entries(services).find(
+			([name, serviceConfig]) =>
+				resolveServicePreset(name, serviceConfig) === "mail",
+		);
+		if (!mailService) {
+			throw new Error(
+				"No mail service configured. Add service.mail() to dev.config.ts.",
+			);
+		}
+		const [name] = mailService;
+		const port = (ports as Record<string, number>)[`${name}Secondary`];
+		if (port === undefined) {
+			throw new Error(
+				`Mail service "${name}" has no API port. Use service.mail() or set secondaryPort: 8025.`,
+			);
+		}
+		return `http://localhost:${port}`;
+	}
+
+	async function provisionServices(verbose: boolean): Promise<void> {
+		await Promise.all(
+			Object.entries(services).map(async ([name, serviceConfig]) => {
+				const command = getServiceProvisionCommand(name, serviceConfig);
+				if (!command) return;
+				await pipeContainerCommand(
+					root,
+					projectName,
+					serviceConfig.serviceName ?? name,
+					command,
+					{ composeFile },
+				);
+				if (verbose) console.log(`✓ Provisioned ${name}`);
+			}),
+		);
+	}
+
+	function applyPortOffset(offset: number): void {
+		portOffset = offset;
+		Object.assign(ports, computePorts(services, apps, portOffset));
+		Object.assign(urls, computeUrls(services, apps, ports, localIp));
+	}
+
+	/**
+	 * Switch to the next free port offset when a host port is taken by another
+	 * project or process. The choice is saved, so later runs keep the ports,
+	 * until the default offset is free again.
+	 */
+	async function ensurePortsAvailable(): Promise<void> {
+		const basePorts = computePorts(services, apps, 0);
+		// Ports of other buncargo projects count as taken until they are stopped
+		// or their containers are removed, even while those are briefly down
+		const claimedPorts = await getClaimedPorts(
+			projectName,
+			root,
+			async (name) => Object.keys(await getContainerStatuses(name)).length > 0,
+		);
+		const defaultOffset = calculateDefaultPortOffset(suffix, root);
+		const { offset: nextOffset, blocked } = await choosePortOffset(
+			basePorts,
+			portOffset,
+			defaultOffset,
+			async (port) => !claimedPorts.has(port) && (await isPortBindable(port)),
+		);
+		if (nextOffset === portOffset) return;
+
+		if (nextOffset === defaultOffset && blocked.length === 0) {
+			console.log(
+				`✓ Default port offset +${defaultOffset} is free again (was +${portOffset})`,
+			);
+			clearSavedPortOffset(root, suffix);
+			applyPortOffset(defaultOffset);
+			return;
+		}
+
+		const collisions = await Promise.all(
+			blocked.map(async ({ name, port }) => {
+				const owner = claimedPorts.has(port)
+					? "another buncargo project"
+					: await findPortOwner(port);
+				return `   ${name}: port ${port} is in use by ${owner ?? "an unknown process"}`;
+			}),
+		);
+		if (nextOffset === null) {
+			throw new Error(
+				`Ports are in use and no free port offset is left:\n${collisions.join("\n")}`,
+			);
+		}
+
+		console.warn(`⚠️  Port collision at offset +${portOffset}:`);
+		for (const collision of collisions) {
+			console.warn(collision);
+		}
+		console.warn(
+			`   Using port offset +${nextOffset} instead (saved in ${relative(root, getPortOffsetFile(root))})`,
+		);
+		savePortOffset(root, suffix, nextOffset);
+		applyPortOffset(nextOffset);
+	}
+
+	async function updateRegistry(running: boolean): Promise<void> {
+		try {
+			await registerProject({
+				projectName,
+				root,
+				worktree,
+				portOffset,
+				ports: { ...ports },
+				running,
+				updatedAt: new Date().toISOString(),
+			});
+		} catch (error) {
+			console.warn(
+				`⚠️  Could not update the project registry: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+
 	async function start(
 		startOptions: StartOptions = {},
 	): Promise<DevServerPids | null> {
@@ -213,8 +549,25 @@ export function createDevEnvironment<
 			startServers: shouldStartServers = true,
 			productionBuild = isCI,
 			skipSeed = false,
+			forceMigrate = false,
 		} = startOptions;
 
+		await resolveSecrets();
+
+		// Host ports only need to be free when containers are not up yet
+		const serviceCount = Object.keys(services).length;
+		const alreadyRunning = await areContainersRunning(
+			projectName,
+			serviceCount,
+		);
+		if (!alreadyRunning) {
+			await ensurePortsAvailable();
+		}
+		// After the port offset is settled, so the checked URLs are the final ones
+		await assertValidEnv(productionBuild);
+		await updateRegistry(true);
+		writeEnvFiles();
+
 		const envVars = buildEnvVars(productionBuild);
 		ensureComposeFile();
 
@@ -224,12 +577,6 @@ export function createDevEnvironment<
 		}
 
 		// Start containers
-		const serviceCount = Object.keys(services).length;
-		const alreadyRunning = await areContainersRunning(
-			projectName,
-			serviceCount,
-		);
-
 		if (alreadyRunning) {
 			if (verbose) console.log("✓ Containers already running");
 		} else {
@@ -240,8 +587,13 @@ export function createDevEnvironment<
 			});
 		}
 
+		// Idempotent preset setup (e.g. creating S3 buckets) needs healthy containers
+		if (wait) {
+			await provisionServices(verbose);
+		}
+
 		// Build migrations list (auto-add prisma if configured)
-		const allMigrations = [
+		const allMigrations: MigrationConfig[] = [
 			// Auto-add prisma migration if prisma is configured
 			...(config.prisma
 				? [
@@ -249,6 +601,10 @@ export function createDevEnvironment<
 							name: "prisma",
 							command: "bunx prisma migrate deploy",
 							cwd: config.prisma.cwd ?? "packages/prisma",
+							inputs: config.prisma.cacheMigrations
+								? PRISMA_MIGRATION_INPUTS
+								: undefined,
+							service: config.prisma.service ?? "postgres",
 						},
 					]
 				: []),
@@ -256,34 +612,21 @@ export function createDevEnvironment<
 			...(config.migrations ?? []),
 		];
 
+		// Migrations and seed with unchanged inputs are skipped (see ./migrations)
+		const usesInputCache =
+			allMigrations.some((migration) => migration.inputs) ||
+			Boolean(config.seed?.inputs);
+		const cacheOptions = {
+			root,
+			cache: inputCache,
+			containers: usesInputCache ? await getServiceContainerIds() : null,
+			force: forceMigrate,
+		};
+
 		// Run migrations if any
 		if (allMigrations.length > 0) {
 			if (verbose) console.log("📦 Running migrations...");
-
-			const migrationResults = await Promise.all(
-				allMigrations.map(async (migration) => {
-					const result = await exec(migration.command, {
-						cwd: migration.cwd,
-						throwOnError: false,
-					});
-					return { name: migration.name, result };
-				}),
-			);
-
-			// Check for failures
-			for (const { name, result } of migrationResults) {
-				if (result.exitCode !== 0) {
-					console.error(`❌ Migration "${name}" failed`);
-					if (result.stdout) {
-						console.error(result.stdout);
-					}
-					if (result.stderr) {
-						console.error(result.stderr);
-					}
-					throw new Error(`Migration "${name}" failed`);
-				}
-			}
-
+			await runMigrations(allMigrations, { ...cacheOptions, exec, verbose });
 			if (verbose) console.log("✓ Migrations complete");
 		}
 
@@ -295,9 +638,16 @@ export function createDevEnvironment<
 		// Run seed if configured (skip if skipSeed is true, e.g., when CLI handles seeding)
 		if (config.seed && !skipSeed) {
 			let shouldSeed = true;
-
-			// Check if seeding is needed using check function
-			if (config.seed.check) {
+			const seedHash = await getInputsHash(config.seed, cacheOptions);
+			const seedUnchanged =
+				seedHash !== null &&
+				!forceMigrate &&
+				inputCache.get(SEED_CACHE_KEY) === seedHash;
+
+			if (seedUnchanged) {
+				shouldSeed = false;
+			} else if (config.seed.check) {
+				// Check if seeding is needed using check function
 				const checkTable = createCheckTableHelper<TServices, TApps>(
 					urls as Record<string, string>,
 					exec,
@@ -318,11 +668,14 @@ export function createDevEnvironment<
 				});
 				if (seedResult.exitCode !== 0) {
 					console.error("❌ Seeding failed");
-					console.error(seedResult.stderr);
+					console.error(redactSecrets(seedResult.stderr));
 					// Don't throw - seeding failure shouldn't stop the environment
 				} else {
+					if (seedHash) inputCache.set(SEED_CACHE_KEY, seedHash);
 					if (verbose) console.log("✓ Seeding complete");
 				}
+			} else if (seedUnchanged) {
+				if (verbose) console.log("✓ Seed inputs unchanged, skipping seeders");
 			} else {
 				if (verbose)
 					console.log("✓ Database already has data, skipping seeders");
@@ -337,8 +690,9 @@ export function createDevEnvironment<
 			}
 
 			// Build if production
+			const appEnvVars = buildAppEnvVars();
 			if (productionBuild) {
-				buildApps(apps, root, envVars, { verbose });
+				buildApps(apps, root, envVars, { verbose, appEnvVars });
 			}
 
 			// Start servers
@@ -346,6 +700,9 @@ export function createDevEnvironment<
 				verbose,
 				productionBuild,
 				isCI,
+				waitForService: waitForDependencyService,
+				appEnvVars,
+				signal: newServersSignal(),
 			});
 
 			// Wait for servers to be ready
@@ -378,11 +735,16 @@ export function createDevEnvironment<
 			await config.hooks.beforeStop(getHookContext());
 		}
 
+		// Apps still waiting on dependencies must not spawn after stop
+		serversAbort.abort();
+
 		stopContainers(root, projectName, {
 			verbose,
 			removeVolumes,
 			composeFile,
 		});
+		await updateRegistry(false);
+		if (removeVolumes) inputCache.clear();
 	}
 
 	async function restart(): Promise<void> {
@@ -395,26 +757,194 @@ export function createDevEnvironment<
 		return areContainersRunning(projectName, serviceCount);
 	}
 
+	async function status(): Promise<EnvironmentStatus> {
+		const containers = await getContainerStatuses(projectName);
+		const portMap = ports as Record<string, number>;
+
+		const serviceStatuses = Object.entries(services).map(
+			async ([name, serviceConfig]): Promise<TargetStatus> => {
+				const port = portMap[name] ?? serviceConfig.port;
+				const container = containers[serviceConfig.serviceName ?? name];
+				const listening = await isPortListening(port);
+				return {
+					kind: "service",
+					name,
+					port,
+					container: container?.state ?? "missing",
+					health: container?.health ?? "none",
+					listening,
+					pid: listening ? await getProcessOnPortAsync(port) : null,
+					uptime: container?.uptime ?? null,
+				};
+			},
+		);
+
+		const appStatuses = Object.entries(apps).map(
+			async ([name, appConfig]): Promise<TargetStatus> => {
+				const port = portMap[name] ?? appConfig.port;
+				const listening = await isPortListening(port);
+				const healthUrl = `http://localhost:${port}${appConfig.healthEndpoint ?? "/"}`;
+				const health = listening
+					? (await isServerResponding(healthUrl))
+						? "healthy"
+						: "unhealthy"
+					: "none";
+				return {
+					kind: "app",
+					name,
+					port,
+					container: null,
+					health,
+					listening,
+					pid: listening ? await getProcessOnPortAsync(port) : null,
+					uptime: null,
+				};
+			},
+		);
+
+		return {
+			projectName,
+			portOffset,
+			services: await Promise.all(serviceStatuses),
+			apps: await Promise.all(appStatuses),
+		};
+	}
+
+	async function* logs(
+		selected?: keyof TServices | (keyof TServices)[],
+		options: LogsOptions = {},
+	): AsyncGenerator<ContainerLogLine> {
+		const names =
+			selected === undefined
+				? Object.keys(services)
+				: (Array.isArray(selected) ? selected : [selected]).map(String);
+		for (const name of names) {
+			if (!(name in services)) {
+				throw new Error(`Unknown service "${name}"`);
+			}
+		}
+
+		// Docker Compose service name -> config key
+		const configKeys = new Map(
+			names.map((name) => [services[name]?.serviceName ?? name, name]),
+		);
+		ensureComposeFile();
+		for await (const entry of streamContainerLogs(
+			root,
+			projectName,
+			[...configKeys.keys()],
+			{ ...options, composeFile },
+		)) {
+			yield {
+				...entry,
+				service: configKeys.get(entry.service) ?? entry.service,
+				line: redactSecrets(entry.line),
+			};
+		}
+	}
+
+	async function execInService(
+		serviceKey: keyof TServices,
+		command: string[],
+		options: { interactive?: boolean } = {},
+	): Promise<number> {
+		const name = String(serviceKey);
+		const serviceConfig = services[name];
+		if (!serviceConfig) {
+			throw new Error(`Unknown service "${name}"`);
+		}
+		const serviceName = serviceConfig.serviceName ?? name;
+		if (!(await isContainerRunning(projectName, serviceName))) {
+			throw new Error(
+				`Service "${name}" is not running. Start it with "buncargo dev --up-only".`,
+			);
+		}
+		ensureComposeFile();
+		return execInContainer(root, projectName, serviceName, command, {
+			...options,
+			composeFile,
+		});
+	}
+
+	async function shell(serviceKey: keyof TServices): Promise<number> {
+		const name = String(serviceKey);
+		const serviceConfig = services[name];
+		if (!serviceConfig) {
+			throw new Error(`Unknown service "${name}"`);
+		}
+		return execInService(
+			serviceKey,
+			getServiceShellCommand(name, serviceConfig),
+		);
+	}
+
 	// ─────────────────────────────────────────────────────────────────────────
 	// Server Management
 	// ─────────────────────────────────────────────────────────────────────────
 
+	/** Readiness check for services listed in an app's dependsOn */
+	async function waitForDependencyService(
+		serviceName: string,
+		signal?: AbortSignal,
+	): Promise<void> {
+		const serviceConfig = services[serviceName];
+		const port = (ports as Record<string, number>)[serviceName];
+		if (!serviceConfig || port === undefined) return;
+		await waitForService(serviceName, serviceConfig, port, {
+			projectName,
+			root,
+			signal,
+		});
+	}
+
+	// Aborted by stop(): cancels dependency waits of detached dev servers
+	let serversAbort = new AbortController();
+
+	function newServersSignal(): AbortSignal {
+		serversAbort = new AbortController();
+		return serversAbort.signal;
+	}
+
 	async function startServersOnly(
 		options: { productionBuild?: boolean; verbose?: boolean } = {},
 	): Promise<DevServerPids> {
 		const { productionBuild = false, verbose = true } = options;
+		if (!resolvedSecrets) await resolveSecrets();
+		await assertValidEnv(productionBuild);
 		const envVars = buildEnvVars(productionBuild);
+		const appEnvVars = buildAppEnvVars();
 		const isCI = process.env.CI === "true";
 
 		// Build if production
 		if (productionBuild) {
-			buildApps(apps, root, envVars, { verbose });
+			buildApps(apps, root, envVars, { verbose, appEnvVars });
 		}
 
 		return startDevServers(apps, root, envVars, ports, {
 			verbose,
 			productionBuild,
 			isCI,
+			waitForService: waitForDependencyService,
+			appEnvVars,
+			signal: newServersSignal(),
+		});
+	}
+
+	async function superviseServers(
+		options: SuperviseServersOptions = {},
+	): Promise<DevServerSupervisor> {
+		if (!resolvedSecrets) await resolveSecrets();
+		const production = options.productionBuild ?? false;
+		await assertValidEnv(production);
+		const envVars = buildEnvVars(production);
+		return superviseDevServers(apps, root, envVars, ports, {
+			waitForService: waitForDependencyService,
+			// Rebuilt per (re)start, so restarted apps see current tunnel URLs
+			appEnvVars: (name) => ({
+				...buildEnvVars(production),
+				...buildAppEnvVars()[name],
+			}),
+			...options,
 		});
 	}
 
@@ -512,7 +1042,9 @@ export function createDevEnvironment<
 		publicUrls: publicUrls as ComputedPublicUrls<TServices, TApps>,
 		services,
 		apps,
-		portOffset,
+		get portOffset() {
+			return portOffset;
+		},
 		isWorktree: worktree,
 		localIp,
 		root,
@@ -523,9 +1055,14 @@ export function createDevEnvironment<
 		stop,
 		restart,
 		isRunning,
+		status,
+		logs,
+		execInService,
+		shell,
 
 		// Server management
 		startServers: startServersOnly,
+		superviseServers,
 		stopProcess: stopProcessFn,
 		waitForServers: waitForServersReady,
 
@@ -535,6 +1072,10 @@ export function createDevEnvironment<
 			setPublicUrls(urlsInput as Record<string, string>);
 		},
 		clearPublicUrls,
+		resolveSecrets,
+		checkEnv,
+		writeEnvFiles,
+		writeEnvFile,
 		ensureComposeFile,
 		exec,
 		waitForServer: waitForServerUrl,
@@ -553,6 +1094,19 @@ export function createDevEnvironment<
 		// Prisma (created below if configured)
 		prisma: undefined,
 
+		// Mail
+		mail: createMailInbox(getMailApiUrl),
+
+		// Snapshots
+		snapshots: createSnapshotManager({
+			root,
+			projectName,
+			services,
+			ensureComposeFile,
+			// The restored data may predate migrations: rerun them on next start
+			onRestore: () => inputCache.clear(),
+		}),
+
 		// Advanced
 		withSuffix,
 	};
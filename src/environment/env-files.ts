@@ -0,0 +1,214 @@
+/**
+ * Generated `.env` files with the computed environment.
+ *
+ * Child processes get the env vars injected, but IDE test runners, bundlers
+ * and other tools read `.env` files themselves. Apps with `envFile` get their
+ * vars written next to them, rewritten when ports or tunnel URLs change.
+ * The same rendering backs `buncargo env --format` (shell, JSON, CI).
+ *
+ * @internal This module is used internally by createDevEnvironment.
+ */
+
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { MIN_REDACTED_LENGTH } from "../secrets";
+import type { AppConfig } from "../types";
+
+export const DEFAULT_ENV_FILE = ".env.buncargo";
+
+export interface ResolvedEnvFile {
+	app: string;
+	/** Absolute path of the file */
+	path: string;
+	keys?: string[];
+	includeSecrets: boolean;
+}
+
+/**
+ * Env files configured by the apps, with paths resolved from the app cwd.
+ */
+export function resolveAppEnvFiles(
+	apps: Record<string, AppConfig>,
+	root: string,
+): ResolvedEnvFile[] {
+	const files: ResolvedEnvFile[] = [];
+	for (const [name, app] of Object.entries(apps)) {
+		if (!app.envFile) continue;
+		const {
+			path = DEFAULT_ENV_FILE,
+			keys,
+			includeSecrets = false,
+		} = app.envFile === true ? {} : app.envFile;
+		files.push({
+			app: name,
+			path: resolve(root, app.cwd ?? ".", path),
+			keys,
+			includeSecrets,
+		});
+	}
+	return files;
+}
+
+/**
+ * Env var values as strings. A missing property read in envVars or an app
+ * env (`urls.postgress`) is undefined: the var is left unset so envSchema
+ * reports it as missing, instead of the apps getting "undefined".
+ */
+export function toEnvStrings(
+	vars: Record<string, string | number>,
+): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const [key, value] of Object.entries(vars)) {
+		if (value === undefined || value === null) continue;
+		result[key] = String(value);
+	}
+	return result;
+}
+
+/**
+ * Keep the listed vars; a trailing `*` matches every var with that prefix.
+ */
+export function filterEnvVars(
+	vars: Record<string, string>,
+	keys?: string[],
+): Record<string, string> {
+	if (!keys) return vars;
+	return Object.fromEntries(
+		Object.entries(vars).filter(([name]) =>
+			keys.some((key) =>
+				key.endsWith("*") ? name.startsWith(key.slice(0, -1)) : name === key,
+			),
+		),
+	);
+}
+
+/**
+ * Drop the vars whose value contains one of the secret values, so env files
+ * on disk do not hold secrets in plain text. Values too short to redact
+ * (e.g. "dev") would match unrelated vars like NODE_ENV and are skipped.
+ */
+export function omitSecretVars(
+	vars: Record<string, string>,
+	secrets: string[],
+): Record<string, string> {
+	const values = secrets.filter(
+		(secret) => secret.length >= MIN_REDACTED_LENGTH,
+	);
+	return Object.fromEntries(
+		Object.entries(vars).filter(
+			([, value]) => !values.some((secret) => value.includes(secret)),
+		),
+	);
+}
+
+/**
+ * Whether git ignores the file. Outside a git repo (or without git) this is
+ * unknown and counts as ignored, so no warning is printed for it.
+ */
+export function isGitIgnored(path: string): boolean {
+	const result = spawnSync("git", ["check-ignore", "-q", path], {
+		cwd: dirname(path),
+		stdio: "ignore",
+	});
+	return result.status !== 1;
+}
+
+/** Output formats of `buncargo env --format` */
+export const ENV_FORMATS = [
+	"dotenv",
+	"shell",
+	"json",
+	"github-actions",
+] as const;
+export type EnvFormat = (typeof ENV_FORMATS)[number];
+
+const PLAIN_VALUE = /^[\w@%+=:,./-]*$/;
+
+function formatDotenvValue(value: string): string {
+	if (PLAIN_VALUE.test(value)) return value;
+	return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function formatShellValue(value: string): string {
+	if (PLAIN_VALUE.test(value) && value) return value;
+	return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * `$GITHUB_ENV` takes values verbatim; multiline values need a delimiter.
+ */
+function formatGithubActionsVar(name: string, value: string): string {
+	if (!value.includes("\n")) return `${name}=${value}`;
+	let delimiter = "BUNCARGO_EOF";
+	while (value.includes(delimiter)) delimiter = `_${delimiter}`;
+	return `${name}<<${delimiter}\n${value}\n${delimiter}`;
+}
+
+/**
+ * `::add-mask::` commands that hide secret values in the GitHub Actions log,
+ * for the secrets used by any of the vars. A mask covers a single line, so
+ * multiline values get one per line.
+ */
+export function formatGithubActionsMasks(
+	vars: Record<string, string>,
+	secrets: string[],
+): string {
+	const values = Object.values(vars);
+	const lines = new Set<string>();
+	for (const secret of secrets) {
+		if (!values.some((value) => value.includes(secret))) continue;
+		for (const line of secret.split("\n")) {
+			if (line.trim()) lines.add(`::add-mask::${line}`);
+		}
+	}
+	return lines.size > 0 ? `${[...lines].join("\n")}\n` : "";
+}
+
+/**
+ * Render vars for `eval`, dotenv files, JSON consumers or `$GITHUB_ENV`.
+ */
+export function formatEnvVars(
+	vars: Record<string, string>,
+	format: EnvFormat,
+): string {
+	if (format === "json") return `${JSON.stringify(vars, null, 2)}\n`;
+	const lines = Object.entries(vars).map(([name, value]) => {
+		switch (format) {
+			case "shell":
+				return `export ${name}=${formatShellValue(value)}`;
+			case "github-actions":
+				return formatGithubActionsVar(name, value);
+			default:
+				return `${name}=${formatDotenvValue(value)}`;
+		}
+	});
+	return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+/**
+ * Render vars as a dotenv file, quoting values that need it.
+ */
+export function formatEnvFile(
+	vars: Record<string, string>,
+	projectName: string,
+): string {
+	return [
+		`# Generated by buncargo for ${projectName}. Do not edit, changes are overwritten.`,
+		"# Rewritten when ports or tunnel URLs change (bunx buncargo env --write).",
+		formatEnvVars(vars, "dotenv"),
+	].join("\n");
+}
+
+/**
+ * Write the file unless it already has this content, so file watchers of
+ * dev servers do not reload for nothing. Returns whether it was written.
+ */
+export function writeEnvFileIfChanged(path: string, content: string): boolean {
+	if (existsSync(path) && readFileSync(path, "utf-8") === content) {
+		return false;
+	}
+	mkdirSync(dirname(path), { recursive: true });
+	writeFileSync(path, content);
+	return true;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test";
+import type { StandardSchemaV1 } from "../types";
+import {
+	checkEnvTargets,
+	formatEnvIssues,
+	validateEnvVars,
+} from "./env-schema";
+
+describe("validateEnvVars", () => {
+	it("accepts vars matching the descriptors", async () => {
+		const issues = await validateEnvVars(
+			{
+				DATABASE_URL: "postgresql://localhost:5432/app",
+				API_PORT: "3000",
+				DEBUG: "true",
+				LOG_LEVEL: "info",
+			},
+			{
+				DATABASE_URL: "url",
+				API_PORT: "port",
+				DEBUG: "boolean",
+				LOG_LEVEL: { oneOf: ["debug", "info"] },
+				SENTRY_DSN: { type: "url", optional: true },
+			},
+		);
+
+		expect(issues).toEqual([]);
+	});
+
+	it("reports missing and invalid vars", async () => {
+		const issues = await validateEnvVars(
+			{ API_PORT: "70000", TIMEOUT: "soon", REGION: "eu", NAME: "" },
+			{
+				DATABASE_URL: "url",
+				API_PORT: "port",
+				TIMEOUT: "number",
+				REGION: { pattern: /^[a-z]{2}-[a-z]+-\d$/ },
+				NAME: "string",
+			},
+		);
+
+		expect(issues).toEqual([
+			{ key: "DATABASE_URL", message: "missing" },
+			{ key: "API_PORT", message: "must be a port (1-65535)" },
+			{ key: "TIMEOUT", message: "must be a number" },
+			{ key: "REGION", message: "must match /^[a-z]{2}-[a-z]+-\\d$/" },
+			{ key: "NAME", message: "missing" },
+		]);
+	});
+
+	it('keeps a literal "undefined" value', async () => {
+		expect(
+			await validateEnvVars({ MODE: "undefined" }, { MODE: "string" }),
+		).toEqual([]);
+	});
+
+	it("uses Standard Schema validators", async () => {
+		const schema: StandardSchemaV1 = {
+			"~standard": {
+				version: 1,
+				vendor: "test",
+				validate: async (value) => {
+					const vars = value as Record<string, string>;
+					return vars.API_URL
+						? { value }
+						: { issues: [{ message: "Required", path: [{ key: "API_URL" }] }] };
+				},
+			},
+		};
+
+		expect(await validateEnvVars({}, schema)).toEqual([
+			{ key: "API_URL", message: "Required" },
+		]);
+		expect(await validateEnvVars({ API_URL: "http://x" }, schema)).toEqual([]);
+	});
+});
+
+describe("formatEnvIssues", () => {
+	it("groups issues per app", async () => {
+		const issues = await checkEnvTargets([
+			{ target: "api", vars: {}, schemas: [{ DATABASE_URL: "url" }] },
+			{
+				target: "web",
+				vars: { VITE_PORT: "x" },
+				schemas: [{ DATABASE_URL: "url" }, { VITE_PORT: "port" }],
+			},
+		]);
+
+		expect(formatEnvIssues(issues)).toBe(
+			[
+				"  api:",
+				"    - DATABASE_URL: missing",
+				"  web:",
+				"    - DATABASE_URL: missing",
+				"    - VITE_PORT: must be a port (1-65535)",
+			].join("\n"),
+		);
+	});
+});
@@ -0,0 +1,155 @@
+/**
+ * Validation of the final env vars against `envSchema`.
+ *
+ * Typos in envVars (`urls.postgress`) otherwise only surface inside the apps.
+ * The schema is either a Standard Schema validator (zod, valibot, ...) or a
+ * record of built-in descriptors, and is checked before any process starts.
+ *
+ * @internal This module is used internally by createDevEnvironment.
+ */
+
+import type {
+	EnvIssue,
+	EnvSchema,
+	EnvVarDescriptor,
+	EnvVarType,
+	StandardSchemaV1,
+} from "../types";
+
+export const ENV_VAR_TYPES: EnvVarType[] = [
+	"string",
+	"url",
+	"port",
+	"number",
+	"integer",
+	"boolean",
+];
+
+export function isStandardSchema(
+	schema: EnvSchema,
+): schema is StandardSchemaV1 {
+	return typeof schema === "object" && schema !== null && "~standard" in schema;
+}
+
+function checkType(value: string, type: EnvVarType): string | undefined {
+	switch (type) {
+		case "string":
+			return undefined;
+		case "url":
+			return URL.canParse(value) ? undefined : "must be a URL";
+		case "port": {
+			const port = Number(value);
+			return Number.isInteger(port) && port >= 1 && port <= 65535
+				? undefined
+				: "must be a port (1-65535)";
+		}
+		case "number":
+			return value.trim() !== "" && Number.isFinite(Number(value))
+				? undefined
+				: "must be a number";
+		case "integer":
+			return value.trim() !== "" && Number.isInteger(Number(value))
+				? undefined
+				: "must be an integer";
+		case "boolean":
+			return ["true", "false", "1", "0"].includes(value)
+				? undefined
+				: "must be true, false, 1 or 0";
+	}
+}
+
+function checkDescriptor(
+	value: string | undefined,
+	descriptor: EnvVarDescriptor,
+): string | undefined {
+	const {
+		type = "string",
+		optional = false,
+		oneOf,
+		pattern,
+	} = typeof descriptor === "string" ? { type: descriptor } : descriptor;
+
+	if (value === undefined || value === "") {
+		return optional ? undefined : "missing";
+	}
+	if (oneOf && !oneOf.includes(value)) {
+		return `must be one of: ${oneOf.join(", ")}`;
+	}
+	if (pattern && !pattern.test(value)) {
+		return `must match ${pattern}`;
+	}
+	return checkType(value, type);
+}
+
+function getIssueKey(
+	path: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined,
+): string | undefined {
+	const [segment] = path ?? [];
+	if (segment === undefined) return undefined;
+	return String(typeof segment === "object" ? segment.key : segment);
+}
+
+/**
+ * Check env vars against one schema.
+ */
+export async function validateEnvVars(
+	vars: Record<string, string>,
+	schema: EnvSchema,
+): Promise<Omit<EnvIssue, "target">[]> {
+	if (isStandardSchema(schema)) {
+		const result = await schema["~standard"].validate(vars);
+		return (result.issues ?? []).map((issue) => ({
+			key: getIssueKey(issue.path),
+			message: issue.message,
+		}));
+	}
+
+	const issues: Omit<EnvIssue, "target">[] = [];
+	for (const [key, descriptor] of Object.entries(schema)) {
+		const message = checkDescriptor(vars[key], descriptor);
+		if (message) issues.push({ key, message });
+	}
+	return issues;
+}
+
+/**
+ * Check the env vars of each target (app) against its schemas.
+ */
+export async function checkEnvTargets(
+	targets: {
+		target: string;
+		vars: Record<string, string>;
+		schemas: EnvSchema[];
+	}[],
+): Promise<EnvIssue[]> {
+	const issues: EnvIssue[] = [];
+	for (const { target, vars, schemas } of targets) {
+		for (const schema of schemas) {
+			for (const issue of await validateEnvVars(vars, schema)) {
+				issues.push({ target, ...issue });
+			}
+		}
+	}
+	return issues;
+}
+
+/**
+ * Render issues grouped per target, e.g.
+ *
+ *   api:
+ *     - DATABASE_URL: missing
+ */
+export function formatEnvIssues(issues: EnvIssue[]): string {
+	const byTarget = new Map<string, string[]>();
+	for (const { target, key, message } of issues) {
+		const lines = byTarget.get(target) ?? [];
+		lines.push(key ? `${key}: ${message}` : message);
+		byTarget.set(target, lines);
+	}
+	return [...byTarget]
+		.map(
+			([target, lines]) =>
+				`  ${target}:\n${lines.map((line) => `    - ${line}`).join("\n")}`,
+		)
+		.join("\n");
+}
@@ -1,8 +1,15 @@
 import { afterEach, describe, expect, it } from "bun:test";
-import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { getProjectName } from "../core/ports";
+import { clearSecretValues, redactSecrets, secret } from "../secrets";
 import type { DevConfig, ServiceConfig } from "../types";
 import { createDevEnvironment } from ".";
 
@@ -123,3 +130,215 @@ describe("createDevEnvironment compose generation", () => {
 		}
 	});
 });
+
+describe("createDevEnvironment env files", () => {
+	it("writes app env files and rewrites them when tunnel URLs change", () => {
+		const root = createWorktreeRoot("Feature_Env_Files");
+		try {
+			process.chdir(root);
+			const env = createDevEnvironment({
+				projectPrefix: "myapp",
+				services: { postgres: { port: 5432 } },
+				apps: {
+					api: { port: 3000, devCommand: "bun run dev", envFile: true },
+					web: {
+						port: 5173,
+						devCommand: "bun run dev",
+						cwd: "apps/web",
+						envFile: { path: ".env.local", keys: ["API_*"] },
+					},
+				},
+			});
+
+			const files = env.writeEnvFiles();
+			expect(files).toEqual([
+				join(root, ".env.buncargo"),
+				join(root, "apps/web/.env.local"),
+			]);
+			const apiEnv = readFileSync(files[0] as string, "utf-8");
+			expect(apiEnv).toStartWith("# Generated by buncargo");
+			expect(apiEnv).toContain(`POSTGRES_PORT=${env.ports.postgres}`);
+			expect(readFileSync(files[1] as string, "utf-8")).not.toContain(
+				"POSTGRES",
+			);
+
+			env.setPublicUrls({ api: "https://api.trycloudflare.com" });
+			expect(readFileSync(files[1] as string, "utf-8")).toContain(
+				"API_PUBLIC_URL=https://api.trycloudflare.com",
+			);
+		} finally {
+			process.chdir(originalCwd);
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("createDevEnvironment per-app env", () => {
+	it("gives each app its own env on top of the shared vars", async () => {
+		const root = createWorktreeRoot("Feature_App_Env");
+		try {
+			process.chdir(root);
+			const env = createDevEnvironment({
+				projectPrefix: "myapp",
+				services: { postgres: { port: 5432 } },
+				apps: {
+					api: {
+						port: 3000,
+						devCommand: 'echo "api $PORT $POSTGRES_PORT"',
+						env: ({ port }) => ({ PORT: port }),
+					},
+					web: {
+						port: 5173,
+						devCommand: 'echo "web $PORT $API_URL"',
+						env: ({ port, urls }) => ({ PORT: port, API_URL: urls.api }),
+						envFile: true,
+					},
+				},
+			});
+
+			const lines: string[] = [];
+			const supervisor = await env.superviseServers({
+				killExisting: false,
+				onOutput: (_app, line) => lines.push(line),
+			});
+			await supervisor.wait();
+
+			expect(lines).toContain(`api ${env.ports.api} ${env.ports.postgres}`);
+			expect(lines).toContain(`web ${env.ports.web} ${env.urls.api}`);
+			const [webEnvFile] = env.writeEnvFiles();
+			expect(readFileSync(webEnvFile as string, "utf-8")).toContain(
+				`PORT=${env.ports.web}`,
+			);
+		} finally {
+			process.chdir(originalCwd);
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("createDevEnvironment secrets", () => {
+	afterEach(() => {
+		clearSecretValues();
+	});
+
+	it("passes resolved secrets to envVars and redacts them", async () => {
+		const env = createDevEnvironment({
+			...createBaseConfig(),
+			secrets: { API_TOKEN: secret.command("echo token-from-command") },
+			envVars: (_ports, _urls, { secrets }) => ({
+				API_TOKEN: secrets.API_TOKEN,
+			}),
+		});
+
+		expect(() => env.buildEnvVars()).toThrow(
+			'Secret "API_TOKEN" is not resolved yet',
+		);
+		expect(await env.resolveSecrets()).toEqual({
+			API_TOKEN: "token-from-command",
+		});
+		expect(env.buildEnvVars().API_TOKEN).toBe("token-from-command");
+		expect(redactSecrets("token=token-from-command")).toBe("token=[redacted]");
+	});
+
+	it("leaves secrets out of env files unless a file opts in", async () => {
+		const root = createWorktreeRoot("Feature_Env_File_Secrets");
+		try {
+			process.chdir(root);
+			const env = createDevEnvironment({
+				projectPrefix: "myapp",
+				services: { postgres: { port: 5432 } },
+				secrets: { API_TOKEN: secret.value("token-in-file") },
+				apps: {
+					api: { port: 3000, devCommand: "bun run dev", envFile: true },
+					web: {
+						port: 5173,
+						devCommand: "bun run dev",
+						cwd: "apps/web",
+						envFile: { includeSecrets: true },
+					},
+				},
+				envVars: (_ports, _urls, { secrets }) => ({
+					API_TOKEN: secrets.API_TOKEN,
+				}),
+			});
+			await env.resolveSecrets();
+
+			const [apiEnvFile, webEnvFile] = env.writeEnvFiles();
+			const apiEnv = readFileSync(apiEnvFile as string, "utf-8");
+			expect(apiEnv).not.toContain("API_TOKEN");
+			expect(apiEnv).toContain(`POSTGRES_PORT=${env.ports.postgres}`);
+			expect(readFileSync(webEnvFile as string, "utf-8")).toContain(
+				"API_TOKEN=token-in-file",
+			);
+			expect(
+				readFileSync(env.writeEnvFile(".env.test"), "utf-8"),
+			).not.toContain("token-in-file");
+			expect(
+				readFileSync(
+					env.writeEnvFile(".env.test", undefined, { includeSecrets: true }),
+					"utf-8",
+				),
+			).toContain("API_TOKEN=token-in-file");
+		} finally {
+			process.chdir(originalCwd);
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("createDevEnvironment envSchema", () => {
+	it("checks the final env vars of every app", async () => {
+		const env = createDevEnvironment({
+			projectPrefix: "myapp",
+			services: { postgres: { port: 5432 } },
+			apps: {
+				api: { port: 3000, devCommand: "echo api" },
+				web: {
+					port: 5173,
+					devCommand: "echo web",
+					env: ({ urls }) => ({ VITE_API_URL: urls.api }),
+					envSchema: { VITE_API_URL: "url" },
+				},
+			},
+			envVars: (_ports, urls) => ({ DATABASE_URL: urls.postgres }),
+			envSchema: { DATABASE_URL: "url", BUNCARGO_TEST_API_KEY: "string" },
+		});
+
+		expect(await env.checkEnv()).toEqual([
+			{ target: "api", key: "BUNCARGO_TEST_API_KEY", message: "missing" },
+			{ target: "web", key: "BUNCARGO_TEST_API_KEY", message: "missing" },
+		]);
+		await expect(env.superviseServers({ killExisting: false })).rejects.toThrow(
+			"Env vars do not match envSchema:\n  api:\n    - BUNCARGO_TEST_API_KEY: missing",
+		);
+	});
+
+	it("reports a missing property read in envVars as missing", async () => {
+		const env = createDevEnvironment({
+			...createBaseConfig(),
+			envVars: (_ports, urls) => ({
+				BUNCARGO_TEST_DATABASE_URL: (urls as Record<string, string>)
+					.postgress as string,
+			}),
+			envSchema: { BUNCARGO_TEST_DATABASE_URL: "url" },
+		});
+
+		expect(env.buildEnvVars()).not.toHaveProperty("BUNCARGO_TEST_DATABASE_URL");
+		expect(await env.checkEnv()).toEqual([
+			{ target: "env", key: "BUNCARGO_TEST_DATABASE_URL", message: "missing" },
+		]);
+	});
+});
+
+describe("createDevEnvironment mail", () => {
+	it("fails clearly when the mail service has no API port", async () => {
+		const env = createDevEnvironment({
+			projectPrefix: "myapp",
+			services: { mail: { port: 1025 } },
+		});
+
+		await expect(env.mail.messages()).rejects.toThrow(
+			'Mail service "mail" has no API port',
+		);
+	});
+});
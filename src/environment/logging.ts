@@ -1,4 +1,5 @@
 import pc from "picocolors";
+import type { EnvironmentStatus, TargetStatus } from "../types";
 
 function formatUrl(url: string): string {
 	return pc.cyan(
@@ -99,3 +100,74 @@ export function logPublicUrls(
 	}
 	console.log("");
 }
+
+function colorState(value: string): string {
+	switch (value) {
+		case "running":
+		case "healthy":
+		case "yes":
+			return pc.green(value);
+		case "starting":
+		case "created":
+		case "restarting":
+		case "paused":
+			return pc.yellow(value);
+		case "-":
+		case "none":
+			return pc.dim(value);
+		default:
+			return pc.red(value);
+	}
+}
+
+export function logEnvironmentStatus(status: EnvironmentStatus): void {
+	const headers = [
+		"NAME",
+		"KIND",
+		"PORT",
+		"CONTAINER",
+		"HEALTH",
+		"LISTENING",
+		"PID",
+	];
+	const rows = [...status.services, ...status.apps].map(
+		(target: TargetStatus) => [
+			target.name,
+			target.kind,
+			String(target.port),
+			target.container ?? "-",
+			target.health,
+			target.listening ? "yes" : "no",
+			target.pid === null ? "-" : String(target.pid),
+		],
+	);
+
+	const widths = headers.map((header, column) =>
+		Math.max(header.length, ...rows.map((row) => row[column]?.length ?? 0)),
+	);
+
+	console.log("");
+	console.log(`  ${pc.cyan(pc.bold(`🐳 ${status.projectName}`))}`);
+	console.log(
+		formatDimLabel(
+			"Port offset:",
+			status.portOffset > 0 ? `+${status.portOffset}` : "none",
+		),
+	);
+	console.log("");
+	console.log(
+		`  ${headers.map((header, column) => pc.dim(header.padEnd(widths[column] ?? 0))).join("  ")}`,
+	);
+	for (const row of rows) {
+		const cells = row.map((cell, column) => {
+			const padded = cell.padEnd(widths[column] ?? 0);
+			if (column === 0) return pc.bold(padded);
+			if (column >= 3 && column <= 5) {
+				return padded.replace(cell, colorState(cell));
+			}
+			return padded;
+		});
+		console.log(`  ${cells.join("  ")}`.trimEnd());
+	}
+	console.log("");
+}
@@ -0,0 +1,110 @@
+import { afterAll, beforeEach, describe, expect, it } from "bun:test";
+import { createMailInbox } from "./mail";
+
+const stored = new Map<string, Record<string, unknown>>();
+
+function addMessage(id: string, to: string, subject: string) {
+	stored.set(id, {
+		ID: id,
+		From: { Name: "App", Address: "noreply@example.com" },
+		To: [{ Name: "", Address: to }],
+		Cc: null,
+		Subject: subject,
+		Text: `Hello ${to}`,
+		HTML: `<p>Hello ${to}</p>`,
+		Date: "2024-01-01T00:00:00Z",
+	});
+}
+
+const server = Bun.serve({
+	port: 0,
+	fetch(request) {
+		const { pathname } = new URL(request.url);
+		if (pathname === "/api/v1/messages" && request.method === "DELETE") {
+			stored.clear();
+			return new Response("ok");
+		}
+		if (pathname === "/api/v1/messages") {
+			return Response.json({
+				messages: [...stored.values()]
+					.reverse()
+					.map(({ ID, To }) => ({ ID, To })),
+			});
+		}
+		const message = stored.get(pathname.replace("/api/v1/message/", ""));
+		return message
+			? Response.json(message)
+			: new Response("not found", { status: 404 });
+	},
+});
+
+afterAll(() => {
+	server.stop(true);
+});
+
+beforeEach(() => {
+	stored.clear();
+});
+
+const inbox = createMailInbox(() => `http://localhost:${server.port}`);
+
+describe("createMailInbox", () => {
+	it("returns full messages filtered by recipient", async () => {
+		addMessage("1", "Ada@example.com", "Welcome");
+		addMessage("2", "bob@example.com", "Reset your password");
+
+		const messages = await inbox.messages({ to: "ada@example.com" });
+
+		expect(messages).toEqual([
+			{
+				id: "1",
+				from: { name: "App", address: "noreply@example.com" },
+				to: [{ name: "", address: "Ada@example.com" }],
+				cc: [],
+				subject: "Welcome",
+				text: "Hello Ada@example.com",
+				html: "<p>Hello Ada@example.com</p>",
+				createdAt: "2024-01-01T00:00:00Z",
+			},
+		]);
+		expect((await inbox.messages()).map((message) => message.id)).toEqual([
+			"2",
+			"1",
+		]);
+	});
+
+	it("waits for a matching message", async () => {
+		setTimeout(() => addMessage("3", "eve@example.com", "Verify"), 300);
+
+		const message = await inbox.waitFor(
+			(candidate) => candidate.subject === "Verify",
+			5000,
+		);
+
+		expect(message.to[0]?.address).toBe("eve@example.com");
+	});
+
+	it("rejects when no message matches in time", async () => {
+		await expect(inbox.waitFor(() => false, 300)).rejects.toThrow(
+			"Timed out after 300ms waiting for a matching mail message",
+		);
+	});
+
+	it("clears the inbox", async () => {
+		addMessage("4", "ada@example.com", "Welcome");
+
+		await inbox.clear();
+
+		expect(await inbox.messages()).toEqual([]);
+	});
+
+	it("surfaces a missing mail service on use", async () => {
+		const missing = createMailInbox(() => {
+			throw new Error("No mail service configured");
+		});
+
+		await expect(missing.messages()).rejects.toThrow(
+			"No mail service configured",
+		);
+	});
+});
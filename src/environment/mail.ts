@@ -0,0 +1,127 @@
+/**
+ * Inbox client for the `service.mail()` catcher (Mailpit HTTP API).
+ *
+ * The API lives on the service's secondary (web UI) port, so it follows the
+ * worktree port offset like every other computed port.
+ *
+ * @internal This module is used internally by createDevEnvironment.
+ */
+
+import { sleep } from "../core/utils";
+import type { MailAddress, MailInbox, MailMessage, MailQuery } from "../types";
+
+const DEFAULT_WAIT_TIMEOUT = 10000;
+const POLL_INTERVAL = 250;
+/** Newest messages fetched per `messages()` call */
+const MESSAGE_LIMIT = 50;
+
+interface MailpitAddress {
+	Name: string;
+	Address: string;
+}
+
+interface MailpitSummary {
+	ID: string;
+	To: MailpitAddress[] | null;
+}
+
+interface MailpitMessage {
+	ID: string;
+	From: MailpitAddress | null;
+	To: MailpitAddress[] | null;
+	Cc: MailpitAddress[] | null;
+	Subject: string;
+	Text: string;
+	HTML: string;
+	Date: string;
+}
+
+function toAddress(address: MailpitAddress): MailAddress {
+	return { name: address.Name, address: address.Address };
+}
+
+function toMessage(message: MailpitMessage): MailMessage {
+	return {
+		id: message.ID,
+		from: message.From ? toAddress(message.From) : null,
+		to: (message.To ?? []).map(toAddress),
+		cc: (message.Cc ?? []).map(toAddress),
+		subject: message.Subject,
+		text: message.Text,
+		html: message.HTML,
+		createdAt: message.Date,
+	};
+}
+
+/**
+ * Create the mail inbox (used internally by createDevEnvironment).
+ * `getUrl` resolves the API base URL, throwing when no mail service exists.
+ * @internal
+ */
+export function createMailInbox(getUrl: () => string): MailInbox {
+	async function request(path: string, init?: RequestInit): Promise<Response> {
+		const url = `${getUrl()}${path}`;
+		const response = await fetch(url, init);
+		if (!response.ok) {
+			throw new Error(
+				`Mail API request failed: ${init?.method ?? "GET"} ${url} (${response.status})`,
+			);
+		}
+		return response;
+	}
+
+	async function getJson<T>(path: string): Promise<T> {
+		return (await (await request(path)).json()) as T;
+	}
+
+	async function messages(query: MailQuery = {}): Promise<MailMessage[]> {
+		const to = query.to?.toLowerCase();
+		const list = await getJson<{ messages: MailpitSummary[] }>(
+			`/api/v1/messages?limit=${MESSAGE_LIMIT}`,
+		);
+		const matching = list.messages.filter(
+			(summary) =>
+				!to ||
+				(summary.To ?? []).some(
+					(recipient) => recipient.Address.toLowerCase() === to,
+				),
+		);
+		return Promise.all(
+			matching.map(async (summary) =>
+				toMessage(
+					await getJson<MailpitMessage>(`/api/v1/message/${summary.ID}`),
+				),
+			),
+		);
+	}
+
+	async function waitFor(
+		predicate: (message: MailMessage) => boolean,
+		timeout = DEFAULT_WAIT_TIMEOUT,
+	): Promise<MailMessage> {
+		const deadline = Date.now() + timeout;
+		while (true) {
+			const match = (await messages()).find(predicate);
+			if (match) return match;
+			if (Date.now() >= deadline) {
+				throw new Error(
+					`Timed out after ${timeout}ms waiting for a matching mail message`,
+				);
+			}
+			await sleep(POLL_INTERVAL);
+		}
+	}
+
+	async function clear(): Promise<void> {
+		await request("/api/v1/messages", { method: "DELETE" });
+	}
+
+	return {
+		get url() {
+			return getUrl();
+		},
+		messages,
+		waitFor,
+		clear,
+	};
+}
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExecResult } from "../core/process";
+import { createInputCache, hashInputs, runMigrations } from "./migrations";
+
+let root: string;
+
+beforeEach(() => {
+	root = join(tmpdir(), `buncargo-migrations-${Date.now()}-${Math.random()}`);
+	mkdirSync(join(root, "db/migrations"), { recursive: true });
+	writeFileSync(join(root, "db/migrations/001.sql"), "create table a();");
+});
+
+afterEach(() => {
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe("hashInputs", () => {
+	it("changes when a matched file or the identity changes", async () => {
+		const dir = join(root, "db");
+		const initial = await hashInputs(dir, ["migrations/*.sql"], "pg=1");
+
+		expect(await hashInputs(dir, ["migrations/*.sql"], "pg=1")).toBe(initial);
+		expect(await hashInputs(dir, ["migrations/*.sql"], "pg=2")).not.toBe(
+			initial,
+		);
+
+		writeFileSync(join(dir, "migrations/002.sql"), "create table b();");
+		expect(await hashInputs(dir, ["migrations/*.sql"], "pg=1")).not.toBe(
+			initial,
+		);
+	});
+
+	it("ignores files outside the patterns", async () => {
+		const dir = join(root, "db");
+		const initial = await hashInputs(dir, ["migrations/*.sql"], "pg=1");
+
+		writeFileSync(join(dir, "README.md"), "docs");
+		expect(await hashInputs(dir, ["migrations/*.sql"], "pg=1")).toBe(initial);
+	});
+});
+
+describe("createInputCache", () => {
+	it("stores hashes per project and clears them", () => {
+		const cache = createInputCache(root, "myapp-main");
+		cache.set("migration:prisma", "abc");
+
+		expect(cache.file).toBe(join(root, ".buncargo/migrations/myapp-main.json"));
+		expect(createInputCache(root, "myapp-main").get("migration:prisma")).toBe(
+			"abc",
+		);
+		expect(createInputCache(root, "myapp-other").get("migration:prisma")).toBe(
+			undefined,
+		);
+
+		cache.clear();
+		expect(existsSync(cache.file)).toBe(false);
+	});
+});
+
+describe("runMigrations", () => {
+	const migration = {
+		name: "db",
+		command: "migrate",
+		cwd: "db",
+		inputs: ["migrations/*.sql"],
+	};
+
+	function createExec(exitCode = 0) {
+		const calls: string[] = [];
+		const exec = async (cmd: string): Promise<ExecResult> => {
+			calls.push(cmd);
+			return { exitCode, stdout: "", stderr: "boom" };
+		};
+		return { calls, exec };
+	}
+
+	it("skips migrations whose inputs are unchanged since the last success", async () => {
+		const cache = createInputCache(root, "myapp");
+		const { calls, exec } = createExec();
+		const options = {
+			root,
+			cache,
+			containers: { postgres: "1" },
+			exec,
+			verbose: false,
+		};
+
+		await runMigrations([migration], options);
+		await runMigrations([migration], options);
+		expect(calls).toEqual(["migrate"]);
+
+		writeFileSync(join(root, "db/migrations/002.sql"), "create table b();");
+		await runMigrations([migration], options);
+		expect(calls).toEqual(["migrate", "migrate"]);
+	});
+
+	it("always runs without inputs, identity or with force", async () => {
+		const cache = createInputCache(root, "myapp");
+		const { calls, exec } = createExec();
+		const options = { root, cache, exec, verbose: false };
+
+		await runMigrations([{ name: "plain", command: "plain" }], {
+			...options,
+			containers: { postgres: "1" },
+		});
+		await runMigrations([{ name: "plain", command: "plain" }], {
+			...options,
+			containers: { postgres: "1" },
+		});
+		await runMigrations([migration], { ...options, containers: null });
+		await runMigrations([migration], { ...options, containers: null });
+		await runMigrations([migration], {
+			...options,
+			containers: { postgres: "1" },
+		});
+		await runMigrations([migration], {
+			...options,
+			containers: { postgres: "1" },
+			force: true,
+		});
+
+		expect(calls).toEqual([
+			"plain",
+			"plain",
+			"migrate",
+			"migrate",
+			"migrate",
+			"migrate",
+		]);
+	});
+
+	it("does not cache failed migrations", async () => {
+		const cache = createInputCache(root, "myapp");
+		const { exec } = createExec(1);
+		const originalError = console.error;
+		console.error = () => {};
+
+		try {
+			await expect(
+				runMigrations([migration], {
+					root,
+					cache,
+					containers: { postgres: "1" },
+					exec,
+					verbose: false,
+				}),
+			).rejects.toThrow('Migration "db" failed');
+		} finally {
+			console.error = originalError;
+		}
+		expect(cache.get("migration:db")).toBe(undefined);
+	});
+});
+
+describe("runMigrations ordering", () => {
+	const options = {
+		root: "/tmp",
+		cache: createInputCache("/tmp", "unused"),
+		containers: null,
+		verbose: false,
+	};
+
+	function createDagExec(failing: string[] = []) {
+		const events: string[] = [];
+		const exec = async (cmd: string): Promise<ExecResult> => {
+			events.push(`start:${cmd}`);
+			await Bun.sleep(5);
+			events.push(`end:${cmd}`);
+			return {
+				exitCode: failing.includes(cmd) ? 2 : 0,
+				stdout: "",
+				stderr: `${cmd} broke`,
+			};
+		};
+		return { events, exec };
+	}
+
+	it("runs dependents after their dependencies and independent ones in parallel", async () => {
+		const { events, exec } = createDagExec();
+
+		await runMigrations(
+			[
+				{ name: "views", command: "views", dependsOn: ["pg", "ch"] },
+				{ name: "pg", command: "pg" },
+				{ name: "ch", command: "ch" },
+			],
+			{ ...options, exec },
+		);
+
+		expect(events.indexOf("start:ch")).toBeLessThan(events.indexOf("end:pg"));
+		expect(events.indexOf("start:views")).toBeGreaterThan(
+			events.indexOf("end:pg"),
+		);
+		expect(events.indexOf("start:views")).toBeGreaterThan(
+			events.indexOf("end:ch"),
+		);
+	});
+
+	it("cancels dependents of a failed migration and finishes other branches", async () => {
+		const { events, exec } = createDagExec(["ch"]);
+		const errors: string[] = [];
+		const originalError = console.error;
+		console.error = (message: string) => errors.push(message);
+
+		try {
+			await expect(
+				runMigrations(
+					[
+						{ name: "pg", command: "pg" },
+						{ name: "ch", command: "ch" },
+						{ name: "views", command: "views", dependsOn: ["ch"] },
+						{ name: "pg-seed", command: "pg-seed", dependsOn: ["pg"] },
+					],
+					{ ...options, exec },
+				),
+			).rejects.toThrow('Migration "ch" failed');
+		} finally {
+			console.error = originalError;
+		}
+
+		expect(events).toContain("end:pg-seed");
+		expect(events).not.toContain("start:views");
+		expect(errors).toContain(
+			[
+				"  ✓ pg",
+				"  ✗ ch (exit 2)",
+				"    ⊘ views ← ch (cancelled)",
+				"    ✓ pg-seed ← pg",
+			].join("\n"),
+		);
+		expect(errors).toContain("ch broke");
+	});
+
+	it("rejects circular dependencies", async () => {
+		const { exec } = createDagExec();
+
+		await expect(
+			runMigrations(
+				[
+					{ name: "a", command: "a", dependsOn: ["b"] },
+					{ name: "b", command: "b", dependsOn: ["a"] },
+				],
+				{ ...options, exec },
+			),
+		).rejects.toThrow("Circular migration dependency: a -> b -> a");
+	});
+});
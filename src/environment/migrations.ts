@@ -0,0 +1,317 @@
+/**
+ * Migration runner: runs migrations as a dependency DAG with an input-hash cache.
+ *
+ * Migrations (and the seed) may declare `inputs` globs. After a successful run
+ * the hash of those files plus the database container identity is stored per
+ * project, and the command is skipped on the next start while it is unchanged:
+ *
+ *   .buncargo/migrations/<projectName>.json
+ *
+ * @internal This module is used internally by createDevEnvironment.
+ */
+
+import { createHash } from "node:crypto";
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import fg from "fast-glob";
+import { assertAcyclic } from "../core/graph";
+import type { ExecResult } from "../core/process";
+import { redactSecrets } from "../secrets";
+import type { ExecOptions, MigrationConfig } from "../types";
+
+/** Inputs of the auto-added prisma migration with `prisma.cacheMigrations` (relative to the prisma cwd) */
+export const PRISMA_MIGRATION_INPUTS = [
+	"**/*.prisma",
+	"**/migrations/**/*.sql",
+];
+
+/** Cache key of the seed command */
+export const SEED_CACHE_KEY = "seed";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Input Cache
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface InputCache {
+	/** Path of the cache file */
+	file: string;
+	get(key: string): string | undefined;
+	set(key: string, hash: string): void;
+	clear(): void;
+}
+
+/**
+ * Create the per-project input hash cache.
+ */
+export function createInputCache(
+	root: string,
+	projectName: string,
+): InputCache {
+	const file = join(root, ".buncargo", "migrations", `${projectName}.json`);
+
+	function read(): Record<string, string> {
+		if (!existsSync(file)) return {};
+		try {
+			return JSON.parse(readFileSync(file, "utf-8")) as Record<string, string>;
+		} catch {
+			return {};
+		}
+	}
+
+	return {
+		file,
+		get: (key) => read()[key],
+		set(key, hash) {
+			const entries = read();
+			entries[key] = hash;
+			mkdirSync(dirname(file), { recursive: true });
+			writeFileSync(file, `${JSON.stringify(entries, null, 2)}\n`);
+		},
+		clear() {
+			rmSync(file, { force: true });
+		},
+	};
+}
+
+/**
+ * Hash the files matched by `patterns` (relative to `dir`) together with the
+ * database identity. Paths are part of the hash, so renames count as changes.
+ */
+export async function hashInputs(
+	dir: string,
+	patterns: string[],
+	identity: string,
+): Promise<string> {
+	const files = await fg(patterns, {
+		cwd: dir,
+		dot: true,
+		onlyFiles: true,
+		ignore: ["**/node_modules/**"],
+	});
+	const hash = createHash("sha256").update(identity);
+	for (const file of files.sort()) {
+		hash.update(`\0${file}\0`);
+		hash.update(readFileSync(join(dir, file)));
+	}
+	return hash.digest("hex");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Migration Runner
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface CachedCommandOptions {
+	root: string;
+	cache: InputCache;
+	/**
+	 * Container ID per service name, null when unknown (never skip).
+	 * A command's identity is the container of its `service`, or all of them.
+	 */
+	containers: Record<string, string> | null;
+	/** Ignore the cache and always run */
+	force?: boolean;
+}
+
+export interface RunMigrationsOptions extends CachedCommandOptions {
+	exec: (cmd: string, options: ExecOptions) => Promise<ExecResult>;
+	verbose?: boolean;
+}
+
+export type MigrationState = "done" | "skipped" | "failed" | "cancelled";
+
+export interface MigrationOutcome {
+	migration: MigrationConfig;
+	state: MigrationState;
+	/** Command result, absent for skipped and cancelled migrations */
+	result?: ExecResult;
+}
+
+function getIdentity(
+	service: string | undefined,
+	containers: Record<string, string> | null,
+): string | null {
+	if (!containers) return null;
+	if (service === undefined) {
+		return Object.entries(containers)
+			.map(([name, id]) => `${name}=${id}`)
+			.join(",");
+	}
+	const id = containers[service];
+	return id ? `${service}=${id}` : null;
+}
+
+/**
+ * Hash the inputs of a cached command, or null when it cannot be cached.
+ */
+export async function getInputsHash(
+	command: { cwd?: string; inputs?: string[]; service?: string },
+	options: CachedCommandOptions,
+): Promise<string | null> {
+	const identity = getIdentity(command.service, options.containers);
+	if (!command.inputs?.length || identity === null) return null;
+	return hashInputs(
+		resolve(options.root, command.cwd ?? ""),
+		command.inputs,
+		identity,
+	);
+}
+
+/**
+ * Run migrations as a DAG: each one starts as soon as everything in its
+ * dependsOn succeeded, so independent branches run in parallel. Migrations
+ * whose inputs are unchanged since their last success are skipped. When one
+ * fails its dependents are cancelled, the other branches still finish, and
+ * the error is thrown after printing the DAG with each migration's state.
+ */
+export async function runMigrations(
+	migrations: MigrationConfig[],
+	options: RunMigrationsOptions,
+): Promise<MigrationOutcome[]> {
+	const { cache, exec, force = false, verbose = true } = options;
+	const byName = new Map(
+		migrations.map((migration) => [migration.name, migration]),
+	);
+
+	assertAcyclic(
+		Object.fromEntries(
+			migrations.map((migration) => [
+				migration.name,
+				migration.dependsOn ?? [],
+			]),
+		),
+		"migration",
+	);
+
+	async function execute(
+		migration: MigrationConfig,
+	): Promise<MigrationOutcome> {
+		const key = `migration:${migration.name}`;
+		const hash = await getInputsHash(migration, options);
+		if (hash && !force && cache.get(key) === hash) {
+			return { migration, state: "skipped" };
+		}
+
+		const result = await exec(migration.command, {
+			cwd: migration.cwd,
+			throwOnError: false,
+		});
+		if (result.exitCode !== 0) {
+			return { migration, state: "failed", result };
+		}
+		if (hash) cache.set(key, hash);
+		return { migration, state: "done", result };
+	}
+
+	const outcomes = new Map<string, Promise<MigrationOutcome>>();
+
+	function run(migration: MigrationConfig): Promise<MigrationOutcome> {
+		let promise = outcomes.get(migration.name);
+		if (!promise) {
+			promise = Promise.all(
+				(migration.dependsOn ?? []).flatMap((dependency) => {
+					const config = byName.get(dependency);
+					return config ? [run(config)] : [];
+				}),
+			).then((dependencies) =>
+				dependencies.every(
+					({ state }) => state === "done" || state === "skipped",
+				)
+					? execute(migration)
+					: { migration, state: "cancelled" as const },
+			);
+			outcomes.set(migration.name, promise);
+		}
+		return promise;
+	}
+
+	const results = await Promise.all(migrations.map(run));
+	const failed = results.filter(({ state }) => state === "failed");
+
+	if (failed.length > 0) {
+		console.error("❌ Migrations failed:");
+		console.error(formatMigrationGraph(results));
+		for (const { migration, result } of failed) {
+			console.error("");
+			console.error(`── ${migration.name} ──`);
+			if (result?.stdout) {
+				console.error(redactSecrets(result.stdout));
+			}
+			if (result?.stderr) {
+				console.error(redactSecrets(result.stderr));
+			}
+		}
+		const names = failed.map(({ migration }) => `"${migration.name}"`);
+		throw new Error(
+			`Migration${names.length > 1 ? "s" : ""} ${names.join(", ")} failed`,
+		);
+	}
+
+	if (verbose) {
+		for (const { migration, state } of results) {
+			if (state === "skipped") {
+				console.log(`  ✓ ${migration.name} unchanged, skipped`);
+			}
+		}
+	}
+
+	return results;
+}
+
+const STATE_LABELS: Record<MigrationState, string> = {
+	done: "✓",
+	skipped: "✓",
+	failed: "✗",
+	cancelled: "⊘",
+};
+
+/**
+ * Render migration outcomes as a DAG: dependencies first, each migration
+ * indented by its depth and followed by the migrations it waited for.
+ */
+export function formatMigrationGraph(outcomes: MigrationOutcome[]): string {
+	const byName = new Map(
+		outcomes.map((outcome) => [outcome.migration.name, outcome]),
+	);
+	const depths = new Map<string, number>();
+
+	function depth(name: string): number {
+		const known = depths.get(name);
+		if (known !== undefined) return known;
+		const dependencies = (byName.get(name)?.migration.dependsOn ?? []).filter(
+			(dependency) => byName.has(dependency),
+		);
+		const value =
+			dependencies.length === 0 ? 0 : 1 + Math.max(...dependencies.map(depth));
+		depths.set(name, value);
+		return value;
+	}
+
+	const ordered = outcomes
+		.map((outcome, index) => ({
+			outcome,
+			index,
+			depth: depth(outcome.migration.name),
+		}))
+		.sort((a, b) => a.depth - b.depth || a.index - b.index);
+
+	return ordered
+		.map(({ outcome: { migration, state, result }, depth }) => {
+			const dependencies = migration.dependsOn?.length
+				? ` ← ${migration.dependsOn.join(", ")}`
+				: "";
+			const detail =
+				state === "failed"
+					? ` (exit ${result?.exitCode})`
+					: state === "done"
+						? ""
+						: ` (${state === "skipped" ? "unchanged" : "cancelled"})`;
+			return `  ${"  ".repeat(depth)}${STATE_LABELS[state]} ${migration.name}${dependencies}${detail}`;
+		})
+		.join("\n");
+}
@@ -5,6 +5,19 @@ import type {
 	ServiceConfig,
 } from "../types";
 
+/**
+ * Host-side client command that prints the row count of a table.
+ * MySQL/MariaDB URLs use the `mysql` client, everything else `psql`.
+ */
+export function getCountQueryCommand(url: string, tableName: string): string {
+	if (url.startsWith("mysql://")) {
+		const { hostname, port, username, password, pathname } = new URL(url);
+		const database = decodeURIComponent(pathname.slice(1));
+		return `mysql --protocol=TCP -h ${hostname} -P ${port} -u "${decodeURIComponent(username)}" -p"${decodeURIComponent(password)}" -N -B -e 'SELECT COUNT(*) FROM \`${tableName}\`' "${database}"`;
+	}
+	return `psql "${url}" -tAc 'SELECT COUNT(*) FROM "${tableName}" LIMIT 1'`;
+}
+
 export function createCheckTableHelper<
 	TServices extends Record<string, ServiceConfig>,
 	TApps extends Record<string, AppConfig>,
@@ -30,8 +43,10 @@ export function createCheckTableHelper<
 			return true;
 		}
 		const checkResult = await exec(
-			`psql "${serviceUrl}" -tAc 'SELECT COUNT(*) FROM "${tableName}" LIMIT 1'`,
-			{ throwOnError: false },
+			getCountQueryCommand(serviceUrl, tableName),
+			{
+				throwOnError: false,
+			},
 		);
 		const count = checkResult.stdout.trim();
 		const shouldSeed =
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { execAsync } from "../core/process";
+import { isDockerRunning } from "../docker/runtime";
+import { service } from "../docker-compose/services";
+import type { ServiceConfig } from "../types";
+import { createDevEnvironment } from "./create-dev-environment";
+import { assertValidSnapshotName, createSnapshotManager } from "./snapshots";
+
+describe("assertValidSnapshotName", () => {
+	it("accepts simple names", () => {
+		expect(() => assertValidSnapshotName("seeded-v2.1_test")).not.toThrow();
+	});
+
+	it("rejects names that could escape the snapshot directory", () => {
+		expect(() => assertValidSnapshotName("../other")).toThrow(
+			'Invalid snapshot name "../other"',
+		);
+		expect(() => assertValidSnapshotName(".hidden")).toThrow();
+		expect(() => assertValidSnapshotName("")).toThrow();
+	});
+});
+
+describe("createSnapshotManager", () => {
+	let root: string;
+
+	beforeEach(() => {
+		root = join(tmpdir(), `buncargo-snapshots-${Date.now()}`);
+		mkdirSync(root, { recursive: true });
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	function createManager(services: Record<string, ServiceConfig>) {
+		return createSnapshotManager({
+			root,
+			projectName: "myapp-feature",
+			services,
+			ensureComposeFile: () => ".buncargo/docker-compose.generated.yml",
+		});
+	}
+
+	function writeSnapshot(name: string, createdAt: string) {
+		const dir = join(root, ".buncargo/snapshots/myapp-feature", name);
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(
+			join(dir, "snapshot.json"),
+			JSON.stringify({ name, createdAt, services: ["postgres"] }),
+		);
+	}
+
+	it("stores snapshots per project", () => {
+		const snapshots = createManager({ postgres: service.postgres() });
+
+		expect(snapshots.dir).toBe(join(root, ".buncargo/snapshots/myapp-feature"));
+	});
+
+	it("lists snapshots newest first and removes them", () => {
+		const snapshots = createManager({ postgres: service.postgres() });
+		writeSnapshot("older", "2024-01-01T00:00:00.000Z");
+		writeSnapshot("newer", "2024-06-01T00:00:00.000Z");
+
+		expect(snapshots.list().map((snapshot) => snapshot.name)).toEqual([
+			"newer",
+			"older",
+		]);
+		expect(snapshots.remove("older")).toBe(true);
+		expect(snapshots.remove("older")).toBe(false);
+		expect(snapshots.list()).toHaveLength(1);
+	});
+
+	it("rejects services without snapshot support", async () => {
+		const snapshots = createManager({ redis: service.redis() });
+
+		await expect(snapshots.save("baseline")).rejects.toThrow(
+			"No services support snapshots",
+		);
+		await expect(
+			snapshots.save("baseline", { services: ["redis"] }),
+		).rejects.toThrow('Service "redis" does not support snapshots');
+	});
+
+	it("fails to restore a missing snapshot", async () => {
+		const snapshots = createManager({ postgres: service.postgres() });
+
+		await expect(snapshots.restore("missing")).rejects.toThrow(
+			'Snapshot "missing" not found',
+		);
+	});
+});
+
+// Runs against real containers: BUNCARGO_DOCKER_TESTS=1 bun test snapshots
+const dockerTests =
+	process.env.BUNCARGO_DOCKER_TESTS === "1" && isDockerRunning();
+
+describe("clickhouse snapshots", () => {
+	it.skipIf(!dockerTests)(
+		"restores materialized views with their data",
+		async () => {
+			const cwd = process.cwd();
+			const root = join(tmpdir(), `buncargo-ch-snapshot-${Date.now()}`);
+			mkdirSync(root, { recursive: true });
+			writeFileSync(join(root, "package.json"), "{}");
+			process.chdir(root);
+			const env = createDevEnvironment({
+				projectPrefix: "chsnapshot",
+				services: { clickhouse: service.clickhouse() },
+			});
+			const query = async (sql: string) => {
+				const result = await execAsync(
+					`docker compose -f ${env.composeFile} exec -T clickhouse clickhouse-client --password clickhouse --query "${sql}"`,
+					root,
+					env.buildEnvVars(),
+				);
+				expect(result.stderr).toBe("");
+				return result.stdout.trim();
+			};
+
+			try {
+				await env.start({ startServers: false, verbose: false });
+				await query(
+					"CREATE TABLE events (n UInt32) ENGINE = MergeTree ORDER BY n",
+				);
+				await query(
+					"CREATE MATERIALIZED VIEW totals ENGINE = SummingMergeTree ORDER BY tuple() AS SELECT sum(n) AS total FROM events",
+				);
+				await query("INSERT INTO events VALUES (1), (2)");
+				await env.snapshots.save("mv");
+
+				await query("INSERT INTO events VALUES (10)");
+				await env.snapshots.restore("mv");
+
+				expect(await query("SELECT sum(total) FROM totals")).toBe("3");
+				expect(await query("SELECT count() FROM events")).toBe("2");
+			} finally {
+				await env.stop({ removeVolumes: true, verbose: false });
+				process.chdir(cwd);
+				rmSync(root, { recursive: true, force: true });
+			}
+		},
+		180_000,
+	);
+});
+
+describe("postgres snapshots", () => {
+	it.skipIf(!dockerTests)(
+		"saves and restores every configured database",
+		async () => {
+			const cwd = process.cwd();
+			const root = join(tmpdir(), `buncargo-pg-snapshot-${Date.now()}`);
+			mkdirSync(root, { recursive: true });
+			writeFileSync(join(root, "package.json"), "{}");
+			process.chdir(root);
+			const env = createDevEnvironment({
+				projectPrefix: "pgsnapshot",
+				services: {
+					postgres: service.postgres({ databases: ["app", "jobs"] }),
+				},
+			});
+			const query = async (database: string, sql: string) => {
+				const result = await execAsync(
+					`docker compose -f ${env.composeFile} exec -T postgres psql -U postgres -d ${database} -tAc "${sql}"`,
+					root,
+					env.buildEnvVars(),
+				);
+				expect(result.exitCode).toBe(0);
+				return result.stdout.trim();
+			};
+
+			try {
+				await env.start({ startServers: false, verbose: false });
+				for (const database of ["app", "jobs"]) {
+					await query(database, "CREATE TABLE items (n int)");
+					await query(database, "INSERT INTO items VALUES (1)");
+				}
+				await env.snapshots.save("all");
+
+				for (const database of ["app", "jobs"]) {
+					await query(database, "INSERT INTO items VALUES (2)");
+				}
+				await env.snapshots.restore("all");
+
+				expect(await query("app", "SELECT count(*) FROM items")).toBe("1");
+				expect(await query("jobs", "SELECT count(*) FROM items")).toBe("1");
+			} finally {
+				await env.stop({ removeVolumes: true, verbose: false });
+				process.chdir(cwd);
+				rmSync(root, { recursive: true, force: true });
+			}
+		},
+		180_000,
+	);
+});
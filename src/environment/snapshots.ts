@@ -0,0 +1,216 @@
+/**
+ * Data snapshots for preset services.
+ *
+ * Each snapshot-capable preset (postgres, clickhouse) declares commands that
+ * stream its data out of / into the running container. Archives are stored per
+ * project so worktrees never share snapshots:
+ *
+ *   .buncargo/snapshots/<projectName>/<name>/snapshot.json
+ *   .buncargo/snapshots/<projectName>/<name>/<service>.<ext>
+ *
+ * @internal This module is used internally by createDevEnvironment.
+ */
+
+import {
+	createReadStream,
+	createWriteStream,
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { isContainerRunning, pipeContainerCommand } from "../docker/runtime";
+import { getServiceSnapshotCommands } from "../docker-compose";
+import type { ServiceConfig, SnapshotInfo, SnapshotManager } from "../types";
+
+const SNAPSHOT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const META_FILE = "snapshot.json";
+
+/**
+ * Throw if a snapshot name could escape the snapshot directory.
+ */
+export function assertValidSnapshotName(name: string): void {
+	if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+		throw new Error(
+			`Invalid snapshot name "${name}". Use letters, digits, ".", "_" and "-".`,
+		);
+	}
+}
+
+/**
+ * Create the snapshot manager (used internally by createDevEnvironment).
+ * @internal
+ */
+export function createSnapshotManager<
+	TServices extends Record<string, ServiceConfig>,
+>(env: {
+	root: string;
+	projectName: string;
+	services: TServices;
+	ensureComposeFile(): string;
+	/** Called after a restore, e.g. to forget migration input hashes */
+	onRestore?(info: SnapshotInfo): void;
+}): SnapshotManager<TServices> {
+	const dir = join(env.root, ".buncargo", "snapshots", env.projectName);
+
+	function readMeta(name: string): SnapshotInfo | null {
+		const metaPath = join(dir, name, META_FILE);
+		if (!existsSync(metaPath)) return null;
+		return JSON.parse(readFileSync(metaPath, "utf-8")) as SnapshotInfo;
+	}
+
+	/** Snapshot-capable services, optionally narrowed to the requested ones */
+	function selectServices(requested?: (keyof TServices)[]) {
+		const names = requested?.map(String) ?? Object.keys(env.services);
+		const selected = [];
+		for (const name of names) {
+			const config = env.services[name];
+			if (!config) {
+				throw new Error(`Unknown service "${name}"`);
+			}
+			const commands = getServiceSnapshotCommands(name, config);
+			if (!commands) {
+				if (requested) {
+					throw new Error(`Service "${name}" does not support snapshots`);
+				}
+				continue;
+			}
+			selected.push({
+				name,
+				serviceName: config.serviceName ?? name,
+				commands,
+			});
+		}
+		if (selected.length === 0) {
+			throw new Error(
+				"No services support snapshots (supported presets: postgres, clickhouse)",
+			);
+		}
+		return selected;
+	}
+
+	async function assertRunning(name: string, serviceName: string) {
+		if (!(await isContainerRunning(env.projectName, serviceName))) {
+			throw new Error(
+				`Service "${name}" is not running. Start it with "buncargo dev --up-only".`,
+			);
+		}
+	}
+
+	async function save(
+		name: string,
+		options: { services?: (keyof TServices)[] } = {},
+	): Promise<SnapshotInfo> {
+		assertValidSnapshotName(name);
+		const services = selectServices(options.services);
+		for (const service of services) {
+			await assertRunning(service.name, service.serviceName);
+		}
+
+		// Write into a temporary directory so a failed save never replaces a good snapshot
+		const target = join(dir, name);
+		const partial = join(dir, `.${name}.partial`);
+		rmSync(partial, { recursive: true, force: true });
+		mkdirSync(partial, { recursive: true });
+		const composeFile = env.ensureComposeFile();
+
+		try {
+			for (const service of services) {
+				await pipeContainerCommand(
+					env.root,
+					env.projectName,
+					service.serviceName,
+					service.commands.save,
+					{
+						output: createWriteStream(
+							join(partial, `${service.name}.${service.commands.extension}`),
+						),
+						composeFile,
+					},
+				);
+			}
+		} catch (error) {
+			rmSync(partial, { recursive: true, force: true });
+			throw error;
+		}
+
+		const info: SnapshotInfo = {
+			name,
+			createdAt: new Date().toISOString(),
+			services: services.map((service) => service.name),
+		};
+		writeFileSync(
+			join(partial, META_FILE),
+			`${JSON.stringify(info, null, 2)}\n`,
+		);
+		rmSync(target, { recursive: true, force: true });
+		renameSync(partial, target);
+		return info;
+	}
+
+	async function restore(
+		name: string,
+		options: { services?: (keyof TServices)[] } = {},
+	): Promise<SnapshotInfo> {
+		assertValidSnapshotName(name);
+		const info = readMeta(name);
+		if (!info) {
+			throw new Error(`Snapshot "${name}" not found in ${dir}`);
+		}
+
+		const requested = options.services?.map(String) ?? info.services;
+		const missing = requested.filter(
+			(service) => !info.services.includes(service),
+		);
+		if (missing.length > 0) {
+			throw new Error(
+				`Snapshot "${name}" does not contain: ${missing.join(", ")}`,
+			);
+		}
+		const services = selectServices(requested as (keyof TServices)[]);
+		for (const service of services) {
+			await assertRunning(service.name, service.serviceName);
+		}
+
+		const composeFile = env.ensureComposeFile();
+		for (const service of services) {
+			await pipeContainerCommand(
+				env.root,
+				env.projectName,
+				service.serviceName,
+				service.commands.restore,
+				{
+					input: createReadStream(
+						join(dir, name, `${service.name}.${service.commands.extension}`),
+					),
+					composeFile,
+				},
+			);
+		}
+		env.onRestore?.(info);
+		return info;
+	}
+
+	function list(): SnapshotInfo[] {
+		if (!existsSync(dir)) return [];
+		return readdirSync(dir)
+			.filter((entry) => !entry.startsWith("."))
+			.map(readMeta)
+			.filter((info): info is SnapshotInfo => info !== null)
+			.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	}
+
+	function remove(name: string): boolean {
+		assertValidSnapshotName(name);
+		const target = join(dir, name);
+		if (!existsSync(target)) return false;
+		rmSync(target, { recursive: true, force: true });
+		return true;
+	}
+
+	return { dir, save, restore, list, remove };
+}
@@ -11,11 +11,33 @@ export {
 	mergeConfigs,
 	validateConfig,
 } from "./config/index";
+// Third-party service presets
+export {
+	defineDockerService,
+	getDefaultPortBindings,
+	registerServicePreset,
+	resolveHealthcheck,
+	unregisterServicePreset,
+} from "./docker-compose";
 export type {
 	ClickhouseServiceOptions,
 	CustomServiceOptions,
+	DockerServiceFactoryInput,
+	DockerServiceFactoryOutput,
+	DockerServicePreset,
+	DockerServicePresetDefaults,
+	KafkaServiceOptions,
+	MailServiceOptions,
+	MariadbServiceOptions,
+	MeilisearchServiceOptions,
+	MongodbServiceOptions,
+	MysqlServiceOptions,
+	OpensearchServiceOptions,
 	PostgresServiceOptions,
+	PresetServiceSharedOptions,
+	RabbitmqServiceOptions,
 	RedisServiceOptions,
+	S3ServiceOptions,
 } from "./docker-compose/services";
 // Service helpers
 export { service } from "./docker-compose/services";
@@ -23,6 +45,8 @@ export { service } from "./docker-compose/services";
 export { createDevEnvironment } from "./environment/index";
 // Config loader (for programmatic access)
 export { clearDevEnvCache, getDevEnv, loadDevEnv } from "./loader/index";
+// Secrets
+export { redactSecrets, resolveSecrets, secret } from "./secrets/index";
 // Lint / Typecheck
 export {
 	runWorkspaceTypecheck,
@@ -37,6 +61,7 @@ export {
 
 export type {
 	AppConfig,
+	AppEnvContext,
 	BuiltInHealthCheck,
 	// CLI
 	CliOptions,
@@ -44,13 +69,17 @@ export type {
 	ComputedPorts,
 	ComputedPublicUrls,
 	ComputedUrls,
+	ContainerLogLine,
+	ContainerState,
 	// Main config
 	DevConfig,
 	// Environment interface
 	DevEnvironment,
 	DevHooks,
 	DevOptions,
+	DevServerExitCodes,
 	DevServerPids,
+	DevServerSupervisor,
 	DockerComposeGenerationOptions,
 	DockerComposeHealthcheckRaw,
 	DockerComposeNode,
@@ -59,23 +88,48 @@ export type {
 	DockerPresetName,
 	DockerPresetServiceDefinition,
 	DockerServiceDefinition,
+	EnvFileConfig,
+	EnvIssue,
+	EnvironmentStatus,
+	// Env schema
+	EnvSchema,
+	EnvVarDescriptor,
 	EnvVarsBuilder,
+	EnvVarType,
 	ExecOptions,
 	HealthCheckFn,
+	HealthStatus,
 	HookContext,
+	LogsOptions,
+	MailAddress,
+	MailInbox,
+	MailMessage,
+	MailQuery,
 	// Migrations & Seed
 	MigrationConfig,
 	// Prisma
 	PrismaConfig,
 	PrismaRunner,
+	RestartPolicy,
+	// Secrets
+	SecretProvider,
+	SecretProviderContext,
+	SecretSource,
 	SeedCheckContext,
 	SeedCheckHelpers,
 	SeedConfig,
 	// Service & App configs
 	ServiceConfig,
+	ServicePresetName,
+	SnapshotInfo,
+	SnapshotManager,
+	StandardSchemaV1,
+	StandardSchemaV1Result,
 	// Start/Stop options
 	StartOptions,
 	StopOptions,
+	SuperviseServersOptions,
+	TargetStatus,
 	UrlBuilderContext,
 	UrlBuilderFn,
 } from "./types/index";
@@ -84,7 +138,12 @@ export type {
 // Core Utilities (for advanced use cases)
 // ═══════════════════════════════════════════════════════════════════════════
 
-export { getLocalIp, isPortAvailable, waitForServer } from "./core/network";
+export {
+	getLocalIp,
+	isPortAvailable,
+	isPortListening,
+	waitForServer,
+} from "./core/network";
 export {
 	calculatePortOffset,
 	computeDevIdentity,
@@ -102,6 +161,12 @@ export {
 	killProcessOnPort,
 	killProcessOnPortAndWait,
 } from "./core/process";
+export {
+	getBuncargoHome,
+	getRegistryFile,
+	type RegistryEntry,
+	readRegistry,
+} from "./core/registry";
 export {
 	type PublicExposeTarget,
 	type PublicTunnel,
@@ -130,10 +195,12 @@ export {
 	areContainersRunning,
 	assertDockerRunning,
 	DOCKER_NOT_RUNNING_MESSAGE,
+	getContainerStatuses,
 	isContainerRunning,
 	isDockerRunning,
 	MAX_ATTEMPTS,
 	POLL_INTERVAL,
+	streamContainerLogs,
 } from "./docker/index";
 export {
 	buildComposeModel,
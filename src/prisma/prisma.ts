@@ -57,6 +57,9 @@ export function createPrismaRunner<
 		postgres: "pg_isready",
 		redis: "redis-cli",
 		clickhouse: "http",
+		mysql: "mysqladmin",
+		mariadb: "mysqladmin",
+		mongodb: "mongosh",
 	};
 
 	function getDatabaseUrl(): string {
@@ -124,6 +127,7 @@ Examples:
    ${env.portOffset > 0 ? `(port offset +${env.portOffset})` : ""}
 `);
 
+		await env.resolveSecrets();
 		await ensureDatabase();
 
 		const envVars = env.buildEnvVars();
@@ -0,0 +1,17 @@
+export { secret } from "./providers";
+export {
+	clearSecretValues,
+	MIN_REDACTED_LENGTH,
+	REDACTED,
+	redactSecrets,
+	registerSecretValues,
+} from "./redact";
+export { createUnresolvedSecrets, resolveSecrets } from "./resolve";
+export {
+	createSecretsPassphrase,
+	getPassphraseFile,
+	getSecretsFile,
+	getSecretsPassphrase,
+	readSecretStore,
+	writeSecretStore,
+} from "./store";
@@ -0,0 +1,63 @@
+import { execAsync } from "../core/process";
+import type { SecretProvider } from "../types";
+import { readSecretStore } from "./store";
+
+/**
+ * Built-in secret providers. A secret can list several, tried in order:
+ *
+ * @example
+ * ```typescript
+ * secrets: {
+ *   STRIPE_KEY: secret.command('op read op://dev/stripe/secret-key'),
+ *   GITHUB_TOKEN: [secret.env(), secret.command('gh auth token')],
+ *   SESSION_SECRET: [secret.file(), secret.value('dev-session-secret')],
+ * }
+ * ```
+ */
+export const secret = {
+	/**
+	 * Environment variable of the shell running buncargo (default: the secret's name).
+	 */
+	env(name?: string): SecretProvider {
+		return {
+			description: `env ${name ?? "<key>"}`,
+			resolve: ({ key }) => process.env[name ?? key] || undefined,
+		};
+	},
+
+	/**
+	 * Stdout of a shell command, run from the repo root (e.g. `pass show`, `op read`).
+	 * A failing command lets the next provider try.
+	 */
+	command(cmd: string): SecretProvider {
+		return {
+			description: `command "${cmd}"`,
+			resolve: async ({ root }) => {
+				const result = await execAsync(cmd, root, {});
+				if (result.exitCode !== 0) return undefined;
+				return result.stdout.replace(/\r?\n$/, "") || undefined;
+			},
+		};
+	},
+
+	/**
+	 * Entry of the encrypted `.buncargo/secrets.enc` (default: the secret's name),
+	 * managed with `buncargo secrets set <name>`.
+	 */
+	file(name?: string): SecretProvider {
+		return {
+			description: `secrets file entry ${name ?? "<key>"}`,
+			resolve: ({ key, root }) => readSecretStore(root)[name ?? key],
+		};
+	},
+
+	/**
+	 * Fixed value, as a last fallback for local development.
+	 */
+	value(value: string): SecretProvider {
+		return {
+			description: "fixed value",
+			resolve: () => value,
+		};
+	},
+};
@@ -0,0 +1,41 @@
+/**
+ * Redaction of resolved secret values in buncargo output (dev server lines,
+ * container logs, command errors, environment info).
+ */
+
+/** Shorter values would redact ordinary words and numbers */
+export const MIN_REDACTED_LENGTH = 4;
+
+export const REDACTED = "[redacted]";
+
+/** Values currently redacted, longest first so overlapping ones mask fully */
+let redactedValues: string[] = [];
+
+/**
+ * Add values to redact from now on.
+ */
+export function registerSecretValues(values: Iterable<string>): void {
+	const all = new Set(redactedValues);
+	for (const value of values) {
+		if (value.length >= MIN_REDACTED_LENGTH) all.add(value);
+	}
+	redactedValues = [...all].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Forget all registered values (for tests).
+ */
+export function clearSecretValues(): void {
+	redactedValues = [];
+}
+
+/**
+ * Replace every registered secret value in the text.
+ */
+export function redactSecrets(text: string): string {
+	let result = text;
+	for (const value of redactedValues) {
+		if (result.includes(value)) result = result.split(value).join(REDACTED);
+	}
+	return result;
+}
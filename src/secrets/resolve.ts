@@ -0,0 +1,60 @@
+import type { SecretSource } from "../types";
+
+/**
+ * Resolve every secret, trying its providers in order. A provider that throws
+ * (e.g. `secret.file()` without a passphrase) counts as not having the value.
+ * Throws one error that lists every secret without a value and the providers
+ * that were tried, with their errors.
+ */
+export async function resolveSecrets(
+	secrets: Record<string, SecretSource>,
+	root: string,
+): Promise<Record<string, string>> {
+	const missing: string[] = [];
+	const entries = await Promise.all(
+		Object.entries(secrets).map(async ([key, source]) => {
+			const providers = Array.isArray(source) ? source : [source];
+			const tried: string[] = [];
+			for (const provider of providers) {
+				try {
+					const value = await provider.resolve({ key, root });
+					if (value !== undefined) return [key, value] as const;
+					tried.push(provider.description);
+				} catch (error) {
+					const message = error instanceof Error ? error.message : error;
+					tried.push(`${provider.description} (${message})`);
+				}
+			}
+			missing.push(
+				`   ${key} (tried: ${tried.join(", ").replace(/<key>/g, key)})`,
+			);
+			return null;
+		}),
+	);
+
+	if (missing.length > 0) {
+		throw new Error(`Could not resolve secrets:\n${missing.sort().join("\n")}`);
+	}
+	return Object.fromEntries(
+		entries.filter((entry) => entry !== null),
+	) as Record<string, string>;
+}
+
+/**
+ * Stand-in for `ctx.secrets` before resolution: reading a configured secret
+ * throws, instead of silently building env vars with missing values.
+ */
+export function createUnresolvedSecrets(
+	names: string[],
+): Readonly<Record<string, string>> {
+	return new Proxy({} as Record<string, string>, {
+		get(target, property) {
+			if (typeof property === "string" && names.includes(property)) {
+				throw new Error(
+					`Secret "${property}" is not resolved yet. Call await env.resolveSecrets() first (start() does this).`,
+				);
+			}
+			return Reflect.get(target, property);
+		},
+	});
+}
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	clearSecretValues,
+	createSecretsPassphrase,
+	createUnresolvedSecrets,
+	getPassphraseFile,
+	getSecretsFile,
+	readSecretStore,
+	redactSecrets,
+	registerSecretValues,
+	resolveSecrets,
+	secret,
+	writeSecretStore,
+} from "./index";
+
+const previousHome = process.env.BUNCARGO_HOME;
+const previousPassphrase = process.env.BUNCARGO_SECRETS_PASSPHRASE;
+
+function restoreEnv(name: string, value: string | undefined): void {
+	if (value === undefined) delete process.env[name];
+	else process.env[name] = value;
+}
+
+describe("secrets file", () => {
+	const root = join(tmpdir(), `buncargo-secrets-test-${Date.now()}`);
+
+	beforeEach(() => {
+		process.env.BUNCARGO_HOME = join(root, "home");
+		process.env.BUNCARGO_SECRETS_PASSPHRASE = "test-passphrase";
+	});
+
+	afterEach(() => {
+		restoreEnv("BUNCARGO_HOME", previousHome);
+		restoreEnv("BUNCARGO_SECRETS_PASSPHRASE", previousPassphrase);
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	it("is empty when there is no file", () => {
+		expect(readSecretStore(root)).toEqual({});
+	});
+
+	it("round-trips values without storing them in plain text", () => {
+		writeSecretStore(root, { STRIPE_KEY: "sk_test_123" });
+
+		expect(readSecretStore(root)).toEqual({ STRIPE_KEY: "sk_test_123" });
+		expect(readFileSync(getSecretsFile(root), "utf-8")).not.toContain(
+			"sk_test_123",
+		);
+	});
+
+	it("fails clearly with a wrong passphrase", () => {
+		writeSecretStore(root, { STRIPE_KEY: "sk_test_123" });
+		process.env.BUNCARGO_SECRETS_PASSPHRASE = "other-passphrase";
+
+		expect(() => readSecretStore(root)).toThrow(
+			`Could not decrypt ${getSecretsFile(root)}: wrong passphrase or corrupted file`,
+		);
+	});
+
+	it("requires a passphrase", () => {
+		delete process.env.BUNCARGO_SECRETS_PASSPHRASE;
+
+		expect(() => writeSecretStore(root, { A: "b" })).toThrow(
+			"No secrets passphrase",
+		);
+	});
+
+	it("creates a passphrase file readable by the user only", () => {
+		delete process.env.BUNCARGO_SECRETS_PASSPHRASE;
+		createSecretsPassphrase();
+		writeSecretStore(root, { A: "value" });
+
+		expect(statSync(getPassphraseFile()).mode & 0o777).toBe(0o600);
+		expect(readSecretStore(root)).toEqual({ A: "value" });
+	});
+});
+
+describe("resolveSecrets", () => {
+	const previousToken = process.env.BUNCARGO_TEST_TOKEN;
+
+	afterEach(() => {
+		restoreEnv("BUNCARGO_TEST_TOKEN", previousToken);
+	});
+
+	it("tries providers in order", async () => {
+		process.env.BUNCARGO_TEST_TOKEN = "from-env";
+
+		const secrets = await resolveSecrets(
+			{
+				TOKEN: [secret.env("BUNCARGO_TEST_TOKEN"), secret.value("fallback")],
+				FAILING: [secret.command("exit 1"), secret.value("fallback")],
+				COMMAND: secret.command("echo from-command"),
+			},
+			tmpdir(),
+		);
+
+		expect(secrets).toEqual({
+			TOKEN: "from-env",
+			FAILING: "fallback",
+			COMMAND: "from-command",
+		});
+	});
+
+	it("lists every unresolved secret with the providers tried", async () => {
+		delete process.env.BUNCARGO_TEST_TOKEN;
+
+		await expect(
+			resolveSecrets(
+				{
+					BUNCARGO_TEST_TOKEN: [secret.env(), secret.command("exit 1")],
+					OTHER: secret.value("ok"),
+				},
+				tmpdir(),
+			),
+		).rejects.toThrow(
+			'Could not resolve secrets:\n   BUNCARGO_TEST_TOKEN (tried: env BUNCARGO_TEST_TOKEN, command "exit 1")',
+		);
+	});
+
+	it("falls back when a provider throws", async () => {
+		const root = join(tmpdir(), `buncargo-secrets-fallback-${Date.now()}`);
+		process.env.BUNCARGO_HOME = join(root, "home");
+		process.env.BUNCARGO_SECRETS_PASSPHRASE = "test-passphrase";
+		writeSecretStore(root, { OTHER: "value" });
+		delete process.env.BUNCARGO_SECRETS_PASSPHRASE;
+
+		try {
+			expect(
+				await resolveSecrets(
+					{ TOKEN: [secret.file(), secret.value("dev")] },
+					root,
+				),
+			).toEqual({ TOKEN: "dev" });
+			await expect(
+				resolveSecrets({ TOKEN: secret.file() }, root),
+			).rejects.toThrow(
+				"TOKEN (tried: secrets file entry TOKEN (No secrets passphrase",
+			);
+		} finally {
+			restoreEnv("BUNCARGO_HOME", previousHome);
+			restoreEnv("BUNCARGO_SECRETS_PASSPHRASE", previousPassphrase);
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it("throws when an unresolved secret is read", () => {
+		const secrets = createUnresolvedSecrets(["TOKEN"]);
+
+		expect(() => secrets.TOKEN).toThrow('Secret "TOKEN" is not resolved yet');
+		expect(secrets.OTHER).toBeUndefined();
+	});
+});
+
+describe("redactSecrets", () => {
+	afterEach(() => {
+		clearSecretValues();
+	});
+
+	it("replaces registered values", () => {
+		registerSecretValues(["sk_test_123", "sk_test_123_456"]);
+
+		expect(redactSecrets("key=sk_test_123_456 other=sk_test_123")).toBe(
+			"key=[redacted] other=[redacted]",
+		);
+	});
+
+	it("ignores values too short to redact safely", () => {
+		registerSecretValues(["1"]);
+
+		expect(redactSecrets("exit code 1")).toBe("exit code 1");
+	});
+});
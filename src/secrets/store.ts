@@ -0,0 +1,160 @@
+/**
+ * Encrypted secrets file for `secret.file()`.
+ *
+ * Values are stored as one JSON object, encrypted with AES-256-GCM under a key
+ * derived (scrypt) from a local passphrase, so the file itself can be shared:
+ *
+ *   .buncargo/secrets.enc
+ *
+ * The passphrase comes from `BUNCARGO_SECRETS_PASSPHRASE`, else from
+ * `secrets.passphrase` in the buncargo home directory (~/.buncargo).
+ */
+
+import {
+	createCipheriv,
+	createDecipheriv,
+	randomBytes,
+	scryptSync,
+} from "node:crypto";
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { getBuncargoHome } from "../core/registry";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+
+interface EncryptedSecretsFile {
+	version: 1;
+	salt: string;
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+export function getSecretsFile(root: string): string {
+	return join(root, ".buncargo", "secrets.enc");
+}
+
+export function getPassphraseFile(): string {
+	return join(getBuncargoHome(), "secrets.passphrase");
+}
+
+/**
+ * Local passphrase of the secrets file, if one is configured.
+ */
+export function getSecretsPassphrase(): string | undefined {
+	if (process.env.BUNCARGO_SECRETS_PASSPHRASE) {
+		return process.env.BUNCARGO_SECRETS_PASSPHRASE;
+	}
+	const file = getPassphraseFile();
+	if (!existsSync(file)) return undefined;
+	return readFileSync(file, "utf-8").trim() || undefined;
+}
+
+/**
+ * Create a random passphrase in the buncargo home directory (readable by the
+ * current user only) and return it.
+ */
+export function createSecretsPassphrase(): string {
+	const passphrase = randomBytes(32).toString("base64url");
+	const file = getPassphraseFile();
+	mkdirSync(dirname(file), { recursive: true });
+	writeFileSync(file, `${passphrase}\n`, { mode: 0o600 });
+	return passphrase;
+}
+
+function requirePassphrase(): string {
+	const passphrase = getSecretsPassphrase();
+	if (!passphrase) {
+		throw new Error(
+			`No secrets passphrase: set BUNCARGO_SECRETS_PASSPHRASE or write it to ${getPassphraseFile()}`,
+		);
+	}
+	return passphrase;
+}
+
+/** Decrypted files by path, reused while the file and passphrase are unchanged */
+const storeCache = new Map<
+	string,
+	{ mtimeMs: number; passphrase: string; values: Record<string, string> }
+>();
+
+/**
+ * Decrypt all values of the secrets file (empty when there is no file).
+ */
+export function readSecretStore(root: string): Record<string, string> {
+	const file = getSecretsFile(root);
+	if (!existsSync(file)) return {};
+	const passphrase = requirePassphrase();
+	const { mtimeMs } = statSync(file);
+	const cached = storeCache.get(file);
+	if (cached?.mtimeMs === mtimeMs && cached.passphrase === passphrase) {
+		return cached.values;
+	}
+
+	let values: Record<string, string>;
+	try {
+		const encrypted = JSON.parse(
+			readFileSync(file, "utf-8"),
+		) as EncryptedSecretsFile;
+		const key = scryptSync(
+			passphrase,
+			Buffer.from(encrypted.salt, "base64"),
+			KEY_LENGTH,
+		);
+		const decipher = createDecipheriv(
+			ALGORITHM,
+			key,
+			Buffer.from(encrypted.iv, "base64"),
+		);
+		decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"));
+		const data = Buffer.concat([
+			decipher.update(Buffer.from(encrypted.data, "base64")),
+			decipher.final(),
+		]);
+		values = JSON.parse(data.toString("utf-8")) as Record<string, string>;
+	} catch {
+		throw new Error(
+			`Could not decrypt ${file}: wrong passphrase or corrupted file`,
+		);
+	}
+
+	storeCache.set(file, { mtimeMs, passphrase, values });
+	return values;
+}
+
+/**
+ * Encrypt and write all values, replacing the secrets file.
+ */
+export function writeSecretStore(
+	root: string,
+	values: Record<string, string>,
+): void {
+	const passphrase = requirePassphrase();
+	const salt = randomBytes(16);
+	const iv = randomBytes(12);
+	const key = scryptSync(passphrase, salt, KEY_LENGTH);
+	const cipher = createCipheriv(ALGORITHM, key, iv);
+	const data = Buffer.concat([
+		cipher.update(JSON.stringify(values), "utf-8"),
+		cipher.final(),
+	]);
+	const encrypted: EncryptedSecretsFile = {
+		version: 1,
+		salt: salt.toString("base64"),
+		iv: iv.toString("base64"),
+		tag: cipher.getAuthTag().toString("base64"),
+		data: data.toString("base64"),
+	};
+
+	const file = getSecretsFile(root);
+	mkdirSync(dirname(file), { recursive: true });
+	writeFileSync(file, `${JSON.stringify(encrypted, null, 2)}\n`);
+	storeCache.delete(file);
+}
@@ -10,7 +10,13 @@ export type HealthCheckFn = (port: number) => Promise<boolean>;
 /**
  * Built-in health check types that map to common patterns.
  */
-export type BuiltInHealthCheck = "pg_isready" | "redis-cli" | "http" | "tcp";
+export type BuiltInHealthCheck =
+	| "pg_isready"
+	| "redis-cli"
+	| "mysqladmin"
+	| "mongosh"
+	| "http"
+	| "tcp";
 
 /**
  * URL builder context passed to urlTemplate function.
@@ -45,7 +51,25 @@ export type DockerComposeNode =
 /**
  * Built-in Docker service presets.
  */
-export type DockerPresetName = "postgres" | "redis" | "clickhouse";
+export type DockerPresetName =
+	| "postgres"
+	| "redis"
+	| "clickhouse"
+	| "mysql"
+	| "mariadb"
+	| "mongodb"
+	| "s3"
+	| "mail"
+	| "rabbitmq"
+	| "kafka"
+	| "meilisearch"
+	| "opensearch";
+
+/**
+ * Name of a built-in preset or one added with `registerServicePreset()` or
+ * `DevConfig.presets`.
+ */
+export type ServicePresetName = DockerPresetName | (string & {});
 
 /**
  * Docker Compose healthcheck object.
@@ -94,7 +118,7 @@ export interface DockerComposeVolumeRaw {
  */
 export interface DockerPresetServiceDefinition {
 	kind: "preset";
-	preset: DockerPresetName;
+	preset: ServicePresetName;
 	service?: DockerComposeServiceRaw;
 }
 
@@ -131,6 +155,8 @@ export interface ServiceConfig {
 	secondaryPort?: number;
 	/** Health check: built-in name, custom function, or disabled (false) */
 	healthCheck?: BuiltInHealthCheck | HealthCheckFn | false;
+	/** Path probed by the `http` health check (e.g. '/health'). Default: '/ping' */
+	healthPath?: string;
 	/** URL builder function that returns the connection URL */
 	urlTemplate?: UrlBuilderFn;
 	/** Docker Compose service name (defaults to the key name) */
@@ -138,23 +164,206 @@ export interface ServiceConfig {
 
 	// ─────────────────────────────────────────────────────────────────────────
 	// Built-in URL template options (alternative to urlTemplate)
-	// When these are set, a built-in URL template is used based on the service name
+	// When these are set, a built-in URL template is used based on the preset or service name
 	// ─────────────────────────────────────────────────────────────────────────
 
 	/** Database name (for postgres, mysql, clickhouse). Enables built-in URL template. */
 	database?: string;
+	/** Further databases (postgres); each gets a `<key>_<database>` URL */
+	databases?: readonly string[];
 	/** Username (default: 'postgres' for postgres, 'root' for mysql, 'default' for clickhouse) */
 	user?: string;
 	/** Password (default: 'postgres' for postgres, 'root' for mysql, 'clickhouse' for clickhouse) */
 	password?: string;
+	/** MongoDB replica set name; adds `?replicaSet=<name>&directConnection=true` to the URL */
+	replicaSet?: string;
 	/** Docker Compose service definition (preset helper or raw escape hatch) */
 	docker?: DockerServiceDefinition;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Service Presets (defineDockerService)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DockerServiceFactoryInput {
+	serviceKey: string;
+	config: ServiceConfig;
+	/** Repository root, for resolving paths in the service config */
+	root: string;
+}
+
+export interface DockerServiceFactoryOutput {
+	service: DockerComposeServiceRaw;
+	volume?: string;
+	/**
+	 * Files written next to the generated compose file, by relative path.
+	 * Mount them with `./<path>` bind mounts.
+	 */
+	files?: Record<string, string>;
+}
+
+export type DockerServiceFactory = (
+	input: DockerServiceFactoryInput,
+) => DockerServiceFactoryOutput;
+
+/**
+ * Command that opens the service's interactive client inside its container.
+ */
+export type DockerServiceShellFactory = (config: ServiceConfig) => string[];
+
+/**
+ * Commands run inside the container to snapshot a service's data.
+ * `save` writes the archive to stdout, `restore` reads it from stdin.
+ */
+export interface ServiceSnapshotCommands {
+	/** File extension of the archive (e.g. "dump") */
+	extension: string;
+	save: string[];
+	restore: string[];
+}
+
+export type DockerServiceSnapshotFactory = (
+	config: ServiceConfig,
+) => ServiceSnapshotCommands;
+
+/**
+ * Command run inside the container after it is up, on every start (null to skip).
+ * It must be idempotent, e.g. create buckets only if missing.
+ */
+export type DockerServiceProvisionFactory = (
+	config: ServiceConfig,
+) => string[] | null;
+
+/**
+ * Extra environment variables a preset adds to the dev environment.
+ * `prefix` is the preset's `envPrefix`, or the service key upper-cased with
+ * other characters than letters and digits replaced by `_` ("MY_CACHE" for
+ * `my-cache`).
+ */
+export type DockerServiceEnvFactory = (input: {
+	prefix: string;
+	url: string;
+	config: ServiceConfig;
+}) => Record<string, string>;
+
+export type PresetServiceSharedOptions = Pick<
+	ServiceConfig,
+	"serviceName" | "database" | "user" | "password" | "expose" | "healthPath"
+> & {
+	port?: number;
+	healthCheck?: BuiltInHealthCheck | false;
+	docker?: DockerComposeServiceRaw;
+};
+
+export interface DockerServicePresetDefaults {
+	port: number;
+	healthCheck: BuiltInHealthCheck;
+	secondaryPort?: number;
+	/** Path of the preset's health endpoint for the `http` check */
+	healthPath?: string;
+	/** Port the image listens on (default: `port`); registered presets only */
+	internalPort?: number;
+	/** Container side of `secondaryPort` (default: `secondaryPort`); registered presets only */
+	secondaryInternalPort?: number;
+}
+
+export interface DockerServicePreset<
+	TOptions extends PresetServiceSharedOptions = PresetServiceSharedOptions,
+	TServiceConfig extends ServiceConfig = ServiceConfig,
+> {
+	preset: ServicePresetName;
+	defaults: DockerServicePresetDefaults;
+	build: DockerServiceFactory;
+	/** Interactive client for `buncargo shell` (defaults to `sh`) */
+	shell?: DockerServiceShellFactory;
+	/** Data snapshot commands for `buncargo snapshot` (unsupported when absent) */
+	snapshot?: DockerServiceSnapshotFactory;
+	/** Idempotent setup command run in the container on start */
+	provision?: DockerServiceProvisionFactory;
+	/** Environment variables derived from the service config */
+	env?: DockerServiceEnvFactory;
+	/** Fixed `prefix` for `env` instead of one derived from the service key */
+	envPrefix?: string;
+	createPresetDefinition(
+		service?: DockerComposeServiceRaw,
+	): DockerPresetServiceDefinition;
+	toServiceConfig(options?: TOptions): TServiceConfig;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // App Configuration
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * What the supervisor does when a dev server exits.
+ * - never: leave it stopped (default)
+ * - on-failure: restart on non-zero exit or signal
+ * - always: restart on any exit
+ */
+export type RestartPolicy = "never" | "on-failure" | "always";
+
+/**
+ * Generated env file of an app, for tools that read `.env` directly.
+ */
+export interface EnvFileConfig {
+	/** Path relative to the app's cwd. Default: '.env.buncargo' */
+	path?: string;
+	/** Variables to write; a trailing `*` matches a prefix (e.g. 'VITE_*'). Default: all */
+	keys?: string[];
+	/**
+	 * Also write variables holding resolved secrets, in plain text. Default:
+	 * false. buncargo warns when the file is not git-ignored.
+	 */
+	includeSecrets?: boolean;
+}
+
+/**
+ * Context passed to `AppConfig.env`, with this app's port and URLs up front.
+ * Typed from the config like the `envVars` arguments (see defineDevConfig).
+ */
+export interface AppEnvContext<
+	TServices extends Record<string, ServiceConfig> = Record<
+		string,
+		ServiceConfig
+	>,
+	TApps extends Record<string, AppConfig> = Record<string, AppConfig>,
+	TSecretName extends string = string,
+> {
+	/** App name (key in `apps`) */
+	name: keyof TApps & string;
+	/** This app's port (offset applied) */
+	port: number;
+	/** This app's local URL */
+	url: string;
+	/** This app's public tunnel URL, when exposed */
+	publicUrl?: string;
+	/** Ports of all services and apps */
+	ports: Readonly<ComputedPorts<TServices, TApps>>;
+	/** URLs of all services and apps */
+	urls: Readonly<ComputedUrls<TServices, TApps>>;
+	/** Public tunnel URLs of exposed services and apps */
+	publicUrls: Readonly<ComputedPublicUrls<TServices, TApps>>;
+	/** Resolved `secrets` */
+	secrets: Readonly<Record<TSecretName, string>>;
+	projectName: string;
+	localIp: string;
+	portOffset: number;
+}
+
+/**
+ * Builder of an app's own env vars (`AppConfig.env`).
+ */
+export type AppEnvBuilder<
+	TServices extends Record<string, ServiceConfig> = Record<
+		string,
+		ServiceConfig
+	>,
+	TApps extends Record<string, AppConfig> = Record<string, AppConfig>,
+	TSecretName extends string = string,
+> = (
+	ctx: AppEnvContext<TServices, TApps, TSecretName>,
+) => Record<string, string | number>;
+
 /**
  * Configuration for an application (e.g., api, web).
  */
@@ -175,6 +384,36 @@ export interface AppConfig {
 	healthEndpoint?: string;
 	/** Timeout for health check in milliseconds */
 	healthTimeout?: number;
+	/**
+	 * Apps or services that must be ready before this app starts.
+	 * Apps are ready once their healthEndpoint responds, services once healthy.
+	 */
+	dependsOn?: string[];
+	/** Restart policy when the dev server exits. Default: 'never' */
+	restart?: RestartPolicy;
+	/** Consecutive restarts allowed before giving up as a crash loop. Default: 5 */
+	maxRestarts?: number;
+	/** Delay before the first restart in ms, doubled per consecutive crash (max 30s). Default: 1000 */
+	restartDelay?: number;
+	/**
+	 * Write the computed env vars to a file in the app directory on start and
+	 * whenever ports or tunnel URLs change (`true`: all vars to `.env.buncargo`).
+	 */
+	envFile?: boolean | EnvFileConfig;
+	/**
+	 * Env vars for this app only, merged over the shared ones (e.g. `PORT`).
+	 *
+	 * @example
+	 * ```typescript
+	 * env: ({ port, urls }) => ({ PORT: port, API_URL: urls.api })
+	 * ```
+	 *
+	 * Declared as a method, so apps whose env defineDevConfig typed against the
+	 * config (see AppsConfig) are still AppConfigs.
+	 */
+	env?(ctx: AppEnvContext): Record<string, string | number>;
+	/** Schema for this app's final env vars, checked in addition to `DevConfig.envSchema` */
+	envSchema?: EnvSchema;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -256,6 +495,11 @@ export interface PrismaConfig {
 	service?: string;
 	/** Environment variable name for the database URL. Default: 'DATABASE_URL' */
 	urlEnvVar?: string;
+	/**
+	 * Skip `prisma migrate deploy` while the schema and migrations are unchanged
+	 * (see `MigrationConfig.inputs`). Default: false
+	 */
+	cacheMigrations?: boolean;
 }
 
 /**
@@ -270,6 +514,99 @@ export interface PrismaRunner {
 	ensureDatabase(): Promise<void>;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Snapshots
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A saved data snapshot (stored under .buncargo/snapshots/<projectName>/<name>/).
+ */
+export interface SnapshotInfo {
+	name: string;
+	/** ISO timestamp of when the snapshot was saved */
+	createdAt: string;
+	/** Config keys of the services included in the snapshot */
+	services: string[];
+}
+
+/**
+ * Snapshot manager available on dev.snapshots.
+ */
+export interface SnapshotManager<
+	TServices extends Record<string, ServiceConfig> = Record<
+		string,
+		ServiceConfig
+	>,
+> {
+	/** Directory holding this project's snapshots */
+	readonly dir: string;
+	/** Save the data of every snapshot-capable service (or only the given ones) */
+	save(
+		name: string,
+		options?: { services?: (keyof TServices)[] },
+	): Promise<SnapshotInfo>;
+	/** Restore a snapshot into the running containers */
+	restore(
+		name: string,
+		options?: { services?: (keyof TServices)[] },
+	): Promise<SnapshotInfo>;
+	/** List saved snapshots, newest first */
+	list(): SnapshotInfo[];
+	/** Delete a snapshot. Returns false if it did not exist */
+	remove(name: string): boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Mail
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface MailAddress {
+	name: string;
+	address: string;
+}
+
+/**
+ * A message caught by the mail service (`service.mail()`).
+ */
+export interface MailMessage {
+	id: string;
+	from: MailAddress | null;
+	to: MailAddress[];
+	cc: MailAddress[];
+	subject: string;
+	/** Plain text body */
+	text: string;
+	/** HTML body */
+	html: string;
+	/** ISO timestamp of when the message was received */
+	createdAt: string;
+}
+
+export interface MailQuery {
+	/** Only messages sent to this address (case-insensitive) */
+	to?: string;
+}
+
+/**
+ * Inbox of the mail catcher, available on dev.mail.
+ */
+export interface MailInbox {
+	/** Base URL of the catcher's web UI and HTTP API */
+	readonly url: string;
+	/** Caught messages, newest first */
+	messages(query?: MailQuery): Promise<MailMessage[]>;
+	/**
+	 * Poll until a message matches the predicate and return it.
+	 * Rejects after `timeout` ms (default: 10000).
+	 */
+	waitFor(
+		predicate: (message: MailMessage) => boolean,
+		timeout?: number,
+	): Promise<MailMessage>;
+	/** Delete all caught messages */
+	clear(): Promise<void>;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Migrations Configuration
 // ═══════════════════════════════════════════════════════════════════════════
@@ -284,6 +621,24 @@ export interface MigrationConfig {
 	command: string;
 	/** Working directory relative to monorepo root */
 	cwd?: string;
+	/**
+	 * Glob patterns (relative to `cwd`) of the files this migration applies.
+	 * When set, the migration is skipped while these files and the database
+	 * containers are unchanged since its last successful run.
+	 * Use `--force-migrate` to bypass the cache.
+	 */
+	inputs?: string[];
+	/**
+	 * Names of migrations that must succeed before this one runs
+	 * (the auto-added Prisma migration is named "prisma").
+	 * Independent migrations run in parallel.
+	 */
+	dependsOn?: string[];
+	/**
+	 * Service this migration targets. Only that container's identity is part
+	 * of the `inputs` cache key. Default: all services.
+	 */
+	service?: string;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -349,8 +704,118 @@ export interface SeedConfig<
 	 * ```
 	 */
 	check?: (ctx: SeedCheckContext<TServices, TApps>) => Promise<boolean>;
+	/**
+	 * Glob patterns (relative to `cwd`) of the seed sources.
+	 * When set, seeding is skipped while these files and the database
+	 * containers are unchanged since the last successful seed.
+	 */
+	inputs?: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Env Schema
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validator implementing the Standard Schema interface (zod, valibot, arktype, ...).
+ * See https://standardschema.dev
+ */
+export interface StandardSchemaV1 {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => StandardSchemaV1Result | Promise<StandardSchemaV1Result>;
+	};
+}
+
+export type StandardSchemaV1Result =
+	| { readonly value: unknown; readonly issues?: undefined }
+	| {
+			readonly issues: ReadonlyArray<{
+				readonly message: string;
+				readonly path?: ReadonlyArray<
+					PropertyKey | { readonly key: PropertyKey }
+				>;
+			}>;
+	  };
+
+/**
+ * Built-in env var types: 'string' (non-empty), 'url', 'port' (1-65535),
+ * 'number', 'integer' and 'boolean' (true/false/1/0).
+ */
+export type EnvVarType =
+	| "string"
+	| "url"
+	| "port"
+	| "number"
+	| "integer"
+	| "boolean";
+
+/**
+ * Built-in description of one env var: a type, or a type with constraints.
+ */
+export type EnvVarDescriptor =
+	| EnvVarType
+	| {
+			/** Default: 'string' */
+			type?: EnvVarType;
+			/** Allow the variable to be missing */
+			optional?: boolean;
+			/** Allowed values */
+			oneOf?: readonly string[];
+			/** Pattern the value must match */
+			pattern?: RegExp;
+	  };
+
+/**
+ * Schema of the final env vars: a Standard Schema validator, or env var names
+ * mapped to built-in descriptors.
+ */
+export type EnvSchema = StandardSchemaV1 | Record<string, EnvVarDescriptor>;
+
+/**
+ * One problem found when checking env vars against `envSchema`.
+ */
+export interface EnvIssue {
+	/** App whose env vars failed, or 'env' for the shared ones when there are no apps */
+	target: string;
+	/** Env var name, when the validator reports one */
+	key?: string;
+	message: string;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Secrets
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Context passed to secret providers.
+ */
+export interface SecretProviderContext {
+	/** Name of the secret (key in `secrets`) */
+	key: string;
+	/** Monorepo root */
+	root: string;
+}
+
+/**
+ * Resolves one secret. Returning undefined lets the next provider try.
+ */
+export interface SecretProvider {
+	/** Shown in errors, e.g. 'env STRIPE_KEY' (never the value) */
+	description: string;
+	resolve(
+		ctx: SecretProviderContext,
+	): Promise<string | undefined> | string | undefined;
+}
+
+/**
+ * A provider, or several tried in order until one returns a value.
+ */
+export type SecretSource = SecretProvider | SecretProvider[];
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Dev Config
 // ═══════════════════════════════════════════════════════════════════════════
@@ -379,6 +844,7 @@ export interface DevOptions {
 export type EnvVarsBuilder<
 	TServices extends Record<string, ServiceConfig>,
 	TApps extends Record<string, AppConfig>,
+	TSecretName extends string = string,
 > = (
 	ports: ComputedPorts<TServices, TApps>,
 	urls: ComputedUrls<TServices, TApps>,
@@ -387,9 +853,34 @@ export type EnvVarsBuilder<
 		localIp: string;
 		portOffset: number;
 		publicUrls: ComputedPublicUrls<TServices, TApps>;
+		/** Resolved `secrets` (resolved on start, or with env.resolveSecrets()) */
+		secrets: Readonly<Record<TSecretName, string>>;
 	},
 ) => Record<string, string | number>;
 
+/**
+ * Apps inferred by defineDevConfig. An app whose `env` is an inline function
+ * cannot be inferred in full (only its name), so it counts as an AppConfig.
+ */
+export type InferredApps<TApps> = {
+	[K in keyof TApps]: TApps[K] extends AppConfig ? TApps[K] : AppConfig;
+};
+
+/**
+ * `apps` as accepted by defineDevConfig: each app's `env` gets a context typed
+ * from the whole config, like `envVars`, so `urls.apii` fails to compile.
+ */
+export type AppsConfig<
+	TServices extends Record<string, ServiceConfig>,
+	TApps,
+	TSecretName extends string = string,
+> = {
+	[K in keyof TApps]: TApps[K] &
+		Omit<AppConfig, "env"> & {
+			env?: AppEnvBuilder<TServices, InferredApps<TApps>, TSecretName>;
+		};
+};
+
 /**
  * Main configuration for the dev environment.
  */
@@ -399,6 +890,7 @@ export interface DevConfig<
 		ServiceConfig
 	>,
 	TApps extends Record<string, AppConfig> = Record<string, AppConfig>,
+	TSecretName extends string = string,
 > {
 	/** Prefix for Docker project name (e.g., 'myapp' -> 'myapp-main') */
 	projectPrefix: string;
@@ -420,7 +912,26 @@ export interface DevConfig<
 	 * })
 	 * ```
 	 */
-	envVars?: EnvVarsBuilder<TServices, TApps>;
+	envVars?: EnvVarsBuilder<TServices, TApps, TSecretName>;
+	/**
+	 * Secrets resolved once per start from providers (see `secret.*`), passed
+	 * to envVars as `ctx.secrets` and redacted in buncargo output.
+	 */
+	secrets?: Record<TSecretName, SecretSource>;
+	/**
+	 * Schema the final env vars of every app must match, checked before any
+	 * process starts (and by `buncargo env --check`).
+	 *
+	 * @example
+	 * ```typescript
+	 * envSchema: {
+	 *   DATABASE_URL: 'url',
+	 *   API_PORT: 'port',
+	 *   LOG_LEVEL: { oneOf: ['debug', 'info'], optional: true },
+	 * }
+	 * ```
+	 */
+	envSchema?: EnvSchema;
 	/** Lifecycle hooks (optional) */
 	hooks?: DevHooks<TServices, TApps>;
 	/** Migrations to run after containers are ready (optional). Runs in parallel. */
@@ -433,6 +944,8 @@ export interface DevConfig<
 	options?: DevOptions;
 	/** Docker Compose generation options (optional) */
 	docker?: DockerComposeGenerationOptions;
+	/** Third-party service presets (from defineDockerService), registered on start */
+	presets?: DockerServicePreset[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -463,6 +976,15 @@ export type ComputedPorts<
 /**
  * Computed URLs object - maps service/app names to their URLs.
  */
+// Helper to add a `<service>_<database>` URL per configured database
+type ServiceDatabaseUrls<TServices extends Record<string, ServiceConfig>> = {
+	[K in keyof TServices as TServices[K] extends {
+		databases: readonly (infer TDatabase extends string)[];
+	}
+		? `${K & string}_${TDatabase}`
+		: never]: string;
+};
+
 export type ComputedUrls<
 	TServices extends Record<string, ServiceConfig>,
 	TApps extends Record<string, AppConfig>,
@@ -470,7 +992,7 @@ export type ComputedUrls<
 	[K in keyof TServices]: string;
 } & {
 	[K in keyof TApps]: string;
-};
+} & ServiceDatabaseUrls<TServices>;
 
 export type ComputedPublicUrls<
 	TServices extends Record<string, ServiceConfig>,
@@ -499,6 +1021,8 @@ export interface StartOptions {
 	suffix?: string;
 	/** Skip automatic seeding (useful when CLI handles seeding separately). Default: false */
 	skipSeed?: boolean;
+	/** Run migrations and seed even if their `inputs` are unchanged. Default: false */
+	forceMigrate?: boolean;
 }
 
 /**
@@ -511,6 +1035,90 @@ export interface StopOptions {
 	removeVolumes?: boolean;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Status
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Docker container state as reported by `docker ps` ("missing" when no container exists).
+ */
+export type ContainerState =
+	| "running"
+	| "created"
+	| "restarting"
+	| "paused"
+	| "exited"
+	| "removing"
+	| "dead"
+	| "missing";
+
+/**
+ * Health status of a service container or app health endpoint.
+ * "none" means no health check is configured (or nothing to check).
+ */
+export type HealthStatus = "healthy" | "unhealthy" | "starting" | "none";
+
+/**
+ * Status snapshot for a single service or app.
+ */
+export interface TargetStatus {
+	kind: "service" | "app";
+	/** Config key of the service or app */
+	name: string;
+	/** Computed host port (offset applied) */
+	port: number;
+	/** Container state (null for apps) */
+	container: ContainerState | null;
+	/** Docker health status for services, health endpoint result for apps */
+	health: HealthStatus;
+	/** Whether something accepts connections on the host port */
+	listening: boolean;
+	/** PID of the process owning the host port (null if unknown) */
+	pid: number | null;
+	/** How long the container has been up (null for apps and stopped containers) */
+	uptime: string | null;
+}
+
+/**
+ * Status snapshot of the whole dev environment.
+ */
+export interface EnvironmentStatus {
+	projectName: string;
+	portOffset: number;
+	services: TargetStatus[];
+	apps: TargetStatus[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Logs
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Options for reading container logs.
+ */
+export interface LogsOptions {
+	/** Keep streaming new lines until aborted. Default: false */
+	follow?: boolean;
+	/** Only show logs since a timestamp or relative duration (e.g. "10m") */
+	since?: string;
+	/** Number of lines to show from the end of each service's logs. Default: all */
+	tail?: number;
+	/** Only yield lines matching this pattern */
+	grep?: string | RegExp;
+	/** Stop streaming when aborted */
+	signal?: AbortSignal;
+}
+
+/**
+ * A single line of container output.
+ */
+export interface ContainerLogLine {
+	/** Config key of the service */
+	service: string;
+	line: string;
+	stream: "stdout" | "stderr";
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Dev Environment Interface
 // ═══════════════════════════════════════════════════════════════════════════
@@ -522,6 +1130,57 @@ export interface DevServerPids {
 	[appName: string]: number;
 }
 
+/**
+ * Exit codes of supervised dev servers (null when killed by a signal).
+ */
+export interface DevServerExitCodes {
+	[appName: string]: number | null;
+}
+
+/**
+ * Options for running dev servers under the built-in supervisor.
+ */
+export interface SuperviseServersOptions {
+	/** Use prodCommand instead of devCommand. Default: false */
+	productionBuild?: boolean;
+	/** Kill any existing process using an app port before starting. Default: true */
+	killExisting?: boolean;
+	/** Grace period in ms between SIGTERM and SIGKILL on stop. Default: 5000 */
+	killTimeout?: number;
+	/** Wait for a service listed in an app's dependsOn to become healthy */
+	waitForService?: (serviceName: string, signal?: AbortSignal) => Promise<void>;
+	/**
+	 * Env vars per app name, merged over the shared ones (defaults to
+	 * AppConfig.env). A function is called on every start and restart, so a
+	 * restarted app gets current values such as tunnel URLs.
+	 */
+	appEnvVars?:
+		| Record<string, Record<string, string>>
+		| ((appName: string) => Record<string, string>);
+	/** Receive output lines instead of printing them with a colored app prefix */
+	onOutput?: (
+		appName: string,
+		line: string,
+		stream: "stdout" | "stderr",
+	) => void;
+}
+
+/**
+ * Handle for dev servers running under the built-in supervisor.
+ */
+export interface DevServerSupervisor {
+	/** PIDs of the dev servers that are currently running */
+	readonly pids: DevServerPids;
+	/** Start time (epoch ms) of the dev servers that are currently running */
+	readonly startTimes: Record<string, number>;
+	/** Resolves with every app's exit code once all dev servers have exited */
+	wait(): Promise<DevServerExitCodes>;
+	/** Stop one app's process tree and start it again, resetting its restart counter */
+	restart(appName: string): Promise<void>;
+	/** Stop all dev servers (SIGTERM to each process tree, SIGKILL after killTimeout) */
+	stop(): Promise<void>;
+}
+
 /**
  * The main dev environment interface returned by createDevEnvironment().
  */
@@ -568,6 +1227,21 @@ export interface DevEnvironment<
 	restart(): Promise<void>;
 	/** Check if containers are running */
 	isRunning(): Promise<boolean>;
+	/** Get per-service and per-app status (container state, health, port owner) */
+	status(): Promise<EnvironmentStatus>;
+	/** Stream container log lines of one or more services (all when omitted) */
+	logs(
+		services?: keyof TServices | (keyof TServices)[],
+		options?: LogsOptions,
+	): AsyncIterableIterator<ContainerLogLine>;
+	/** Run a command inside a running service container (stdio inherited), resolves with its exit code */
+	execInService(
+		service: keyof TServices,
+		command: string[],
+		options?: { interactive?: boolean },
+	): Promise<number>;
+	/** Open the service's client inside its container (psql, redis-cli, clickhouse-client, else sh) */
+	shell(service: keyof TServices): Promise<number>;
 
 	// ─────────────────────────────────────────────────────────────────────────
 	// Server Management
@@ -578,6 +1252,10 @@ export interface DevEnvironment<
 		productionBuild?: boolean;
 		verbose?: boolean;
 	}): Promise<DevServerPids>;
+	/** Run dev servers in the foreground under the built-in supervisor */
+	superviseServers(
+		options?: SuperviseServersOptions,
+	): Promise<DevServerSupervisor>;
 	/** Stop a process by PID */
 	stopProcess(pid: number): void;
 	/** Wait for servers to be ready */
@@ -596,6 +1274,21 @@ export interface DevEnvironment<
 	setPublicUrls(urls: ComputedPublicUrls<TServices, TApps>): void;
 	/** Clear all public tunnel URLs */
 	clearPublicUrls(): void;
+	/** Resolve `secrets` from their providers (start() does this), values are redacted in output */
+	resolveSecrets(): Promise<Record<string, string>>;
+	/** Check the final env vars of every app against `envSchema`, returns the issues found */
+	checkEnv(options?: { production?: boolean }): Promise<EnvIssue[]>;
+	/** Write the env files configured per app (AppConfig.envFile), returns their paths */
+	writeEnvFiles(): string[];
+	/**
+	 * Write env vars (all, or only `keys`) to a path relative to the monorepo
+	 * root. Variables holding secrets are left out unless `includeSecrets`.
+	 */
+	writeEnvFile(
+		path: string,
+		keys?: string[],
+		options?: { includeSecrets?: boolean },
+	): string;
 	/** Ensure generated docker compose file exists and return path used with -f */
 	ensureComposeFile(): string;
 	/** Execute a command with environment variables set */
@@ -643,6 +1336,10 @@ export interface DevEnvironment<
 
 	/** Prisma runner (only available when prisma is configured) */
 	readonly prisma?: PrismaRunner;
+	/** Save and restore service data (postgres, clickhouse) */
+	readonly snapshots: SnapshotManager<TServices>;
+	/** Inbox of the `service.mail()` catcher (throws when no mail service is configured) */
+	readonly mail: MailInbox;
 
 	// ─────────────────────────────────────────────────────────────────────────
 	// Advanced
@@ -666,6 +1363,6 @@ export interface CliOptions {
 	watchdog?: boolean;
 	/** Watchdog timeout in minutes (default: 10) */
 	watchdogTimeout?: number;
-	/** Command to run dev servers (e.g., 'bun concurrently ...') */
+	/** Custom command to run dev servers instead of the built-in supervisor */
 	devServersCommand?: string;
 }